@@ -1,33 +1,16 @@
 import { Router, Request, Response } from 'express';
 import { AuthService } from '../services/authservice';
-import { authMiddleware } from '../middleware/authmiddleware';
+import { authMiddleware, getClientInfo, requirePermission } from '../middleware/authmiddleware';
+import { AuthEventFilters, AuthEventService, AuthEventType, AUTH_EVENT_PAGINATION, AUTH_EVENT_TYPES } from '../services/autheventservice';
+import { PERMISSIONS, RoleService } from '../services/roleservice';
+import { SessionService } from '../services/sessionservice';
+import { ApiKeyService, API_KEY_REQUEST_PAGINATION, API_KEY_SCOPES } from '../services/apikeyservice';
+import { isPaginationError, parsePagination } from '../lib/pagination';
 
 const router = Router();
 
-// Middleware pour vérifier que l'utilisateur est admin
-const adminMiddleware = async (req: Request, res: Response, next: any) => {
-    try {
-        const userId = req.user!.userId;
-        const isAdmin = await AuthService.isAdmin(userId);
-        
-        if (!isAdmin) {
-            return res.status(403).json({
-                success: false,
-                message: 'Accès réservé aux administrateurs'
-            });
-        }
-        
-        next();
-    } catch (error) {
-        return res.status(500).json({
-            success: false,
-            message: 'Erreur lors de la vérification des permissions'
-        });
-    }
-};
-
 /* 🔒 ROUTE PROTÉGÉE ADMIN - Lister tous les admins */
-router.get('/admins', authMiddleware, adminMiddleware, async (req: Request, res: Response) => {
+router.get('/admins', authMiddleware, requirePermission('users:read'), async (req: Request, res: Response) => {
     try {
         const admins = await AuthService.getAllAdmins();
         
@@ -45,7 +28,7 @@ router.get('/admins', authMiddleware, adminMiddleware, async (req: Request, res:
 });
 
 /* 🔒 ROUTE PROTÉGÉE ADMIN - Promouvoir un utilisateur en admin */
-router.post('/promote/:userId', authMiddleware, adminMiddleware, async (req: Request, res: Response) => {
+router.post('/promote/:userId', authMiddleware, requirePermission('users:manage'), async (req: Request, res: Response) => {
     try {
         const userId = parseInt(req.params.userId);
         
@@ -56,7 +39,7 @@ router.post('/promote/:userId', authMiddleware, adminMiddleware, async (req: Req
             });
         }
         
-        const success = await AuthService.promoteToAdmin(userId);
+        const success = await AuthService.promoteToAdmin(userId, req.user!.userId, getClientInfo(req));
         
         if (success) {
             res.json({
@@ -79,7 +62,7 @@ router.post('/promote/:userId', authMiddleware, adminMiddleware, async (req: Req
 });
 
 /* 🔒 ROUTE PROTÉGÉE ADMIN - Rétrograder un admin en utilisateur */
-router.post('/demote/:userId', authMiddleware, adminMiddleware, async (req: Request, res: Response) => {
+router.post('/demote/:userId', authMiddleware, requirePermission('users:manage'), async (req: Request, res: Response) => {
     try {
         const userId = parseInt(req.params.userId);
         const currentUserId = req.user!.userId;
@@ -99,7 +82,7 @@ router.post('/demote/:userId', authMiddleware, adminMiddleware, async (req: Requ
             });
         }
         
-        const success = await AuthService.demoteFromAdmin(userId);
+        const success = await AuthService.demoteFromAdmin(userId, currentUserId, getClientInfo(req));
         
         if (success) {
             res.json({
@@ -122,7 +105,7 @@ router.post('/demote/:userId', authMiddleware, adminMiddleware, async (req: Requ
 });
 
 /* 🔒 ROUTE PROTÉGÉE ADMIN - Statistiques générales */
-router.get('/stats', authMiddleware, adminMiddleware, async (req: Request, res: Response) => {
+router.get('/stats', authMiddleware, requirePermission('users:read'), async (req: Request, res: Response) => {
     try {
         // Tu peux étendre cette route avec des stats de ta DB
         const admins = await AuthService.getAllAdmins();
@@ -143,17 +126,97 @@ router.get('/stats', authMiddleware, adminMiddleware, async (req: Request, res:
     }
 });
 
+/* 🔒 ROUTE PROTÉGÉE ADMIN - Journal d'audit de sécurité
+Filtres (query string) : userId, ip, type, from, to (dates ISO)
+Paginé : page/limit (ou cursor), sort (createdAt, type), order */
+router.get('/auth-events', authMiddleware, requirePermission('audit:read'), async (req: Request, res: Response) => {
+    try {
+        const { userId, ip, type, from, to } = req.query as Record<string, string | undefined>
+        const filters: AuthEventFilters = {};
+
+        if (userId) {
+            const userIdNum = parseInt(userId);
+            if (isNaN(userIdNum)) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'ID utilisateur invalide'
+                });
+            }
+            filters.userId = userIdNum;
+        }
+
+        if (type) {
+            if (!(AUTH_EVENT_TYPES as readonly string[]).includes(type)) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'Type d\'événement invalide. Types autorisés: ' + AUTH_EVENT_TYPES.join(', ')
+                });
+            }
+            filters.type = type as AuthEventType;
+        }
+
+        if (ip) filters.ip = ip;
+
+        // Conversion et validation des bornes de la période
+        for (const [key, value] of [['from', from], ['to', to]] as const) {
+            if (value) {
+                const date = new Date(value);
+                if (isNaN(date.getTime())) {
+                    return res.status(400).json({
+                        success: false,
+                        message: `Date "${key}" invalide`
+                    });
+                }
+                filters[key] = date;
+            }
+        }
+
+        const pagination = parsePagination(req.query, AUTH_EVENT_PAGINATION);
+
+        // Les impersonations arrivées à expiration apparaissent dans le journal avec leur fin
+        await SessionService.recordExpiredImpersonations();
+
+        const page = await AuthEventService.search(filters, pagination);
+
+        res.json({
+            success: true,
+            data: page.items,
+            pagination: page.pagination,
+            filters
+        });
+    } catch (error) {
+        console.error('Erreur lors de la récupération du journal d\'audit:', error);
+
+        if (isPaginationError(error)) {
+            return res.status(400).json({
+                success: false,
+                message: (error as Error).message
+            });
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la récupération du journal d\'audit'
+        });
+    }
+});
+
 /* 🔒 ROUTE PROTÉGÉE ADMIN - Vérifier si l'utilisateur actuel est admin */
 router.get('/check', authMiddleware, async (req: Request, res: Response) => {
     try {
         const userId = req.user!.userId;
         const isAdmin = await AuthService.isAdmin(userId);
+        const role = await AuthService.getUserRole(userId);
+        const permissions = await RoleService.getPermissionsForRole(role);
         
         res.json({
             success: true,
             data: {
                 isAdmin: isAdmin,
-                userId: userId
+                userId: userId,
+                role: role,
+                permissions: permissions,
+                impersonatedBy: req.user!.impersonatorId ?? null
             }
         });
     } catch (error) {
@@ -165,4 +228,416 @@ router.get('/check', authMiddleware, async (req: Request, res: Response) => {
     }
 });
 
-export default router;
\ No newline at end of file
+/* ------------------------ GESTION DES RÔLES ----------------------------- */
+
+/* 🔒 ROUTE PROTÉGÉE ADMIN - Catalogue des permissions disponibles */
+router.get('/permissions', authMiddleware, requirePermission('users:read'), async (req: Request, res: Response) => {
+    res.json({
+        success: true,
+        data: Object.entries(PERMISSIONS).map(([name, description]) => ({ name, description }))
+    });
+});
+
+/* 🔒 ROUTE PROTÉGÉE ADMIN - Lister les rôles et leurs permissions */
+router.get('/roles', authMiddleware, requirePermission('users:read'), async (req: Request, res: Response) => {
+    try {
+        const roles = await RoleService.getAllRoles();
+
+        res.json({
+            success: true,
+            data: roles
+        });
+    } catch (error) {
+        console.error('Erreur lors de la récupération des rôles:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la récupération des rôles'
+        });
+    }
+});
+
+/* 🔒 ROUTE PROTÉGÉE ADMIN - Créer un rôle */
+router.post('/roles', authMiddleware, requirePermission('roles:manage'), async (req: Request, res: Response) => {
+    try {
+        const { name, description, permissions } = req.body;
+
+        if (!name || !Array.isArray(permissions)) {
+            return res.status(400).json({
+                success: false,
+                message: 'Les champs name et permissions (tableau) sont requis'
+            });
+        }
+
+        const role = await RoleService.createRole({ name, description, permissions });
+
+        res.status(201).json({
+            success: true,
+            message: 'Rôle créé avec succès',
+            data: role
+        });
+    } catch (error) {
+        console.error('Erreur lors de la création du rôle:', error);
+
+        if (error instanceof Error) {
+            if (error.message.includes('existe déjà')) {
+                return res.status(409).json({
+                    success: false,
+                    message: error.message
+                });
+            }
+            if (error.message.includes('invalide')) {
+                return res.status(400).json({
+                    success: false,
+                    message: error.message
+                });
+            }
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la création du rôle'
+        });
+    }
+});
+
+/* 🔒 ROUTE PROTÉGÉE ADMIN - Modifier un rôle (description, permissions) */
+router.put('/roles/:name', authMiddleware, requirePermission('roles:manage'), async (req: Request, res: Response) => {
+    try {
+        const { description, permissions } = req.body;
+
+        if (description === undefined && permissions === undefined) {
+            return res.status(400).json({
+                success: false,
+                message: 'Vous devez fournir au moins un champ à mettre à jour (description, permissions)'
+            });
+        }
+
+        if (permissions !== undefined && !Array.isArray(permissions)) {
+            return res.status(400).json({
+                success: false,
+                message: 'Le champ permissions doit être un tableau'
+            });
+        }
+
+        const role = await RoleService.updateRole(req.params.name, { description, permissions });
+
+        res.json({
+            success: true,
+            message: 'Rôle mis à jour avec succès',
+            data: role
+        });
+    } catch (error) {
+        console.error('Erreur lors de la mise à jour du rôle:', error);
+
+        if (error instanceof Error) {
+            if (error.message === 'Rôle non trouvé') {
+                return res.status(404).json({
+                    success: false,
+                    message: error.message
+                });
+            }
+            if (error.message.includes('invalide') || error.message.includes('modifiables')) {
+                return res.status(400).json({
+                    success: false,
+                    message: error.message
+                });
+            }
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la mise à jour du rôle'
+        });
+    }
+});
+
+/* 🔒 ROUTE PROTÉGÉE ADMIN - Supprimer un rôle (non système et non attribué) */
+router.delete('/roles/:name', authMiddleware, requirePermission('roles:manage'), async (req: Request, res: Response) => {
+    try {
+        const result = await RoleService.deleteRole(req.params.name);
+
+        res.json({
+            success: true,
+            message: result.message
+        });
+    } catch (error) {
+        console.error('Erreur lors de la suppression du rôle:', error);
+
+        if (error instanceof Error) {
+            if (error.message === 'Rôle non trouvé') {
+                return res.status(404).json({
+                    success: false,
+                    message: error.message
+                });
+            }
+            if (error.message.includes('Impossible')) {
+                return res.status(409).json({
+                    success: false,
+                    message: error.message
+                });
+            }
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la suppression du rôle'
+        });
+    }
+});
+
+/* ------------------------ IMPERSONATION (SUPPORT) ----------------------------- */
+
+/* 🔒 ROUTE PROTÉGÉE ADMIN - Démarrer une impersonation
+Retourne un token en lecture seule au nom de l'utilisateur, valable quelques minutes
+Le frontend l'utilise à la place du token admin pour afficher les écrans de l'utilisateur */
+router.post('/impersonations/:userId', authMiddleware, requirePermission('users:impersonate'), async (req: Request, res: Response) => {
+    try {
+        const userId = parseInt(req.params.userId);
+
+        if (isNaN(userId)) {
+            return res.status(400).json({
+                success: false,
+                message: 'ID utilisateur invalide'
+            });
+        }
+
+        const impersonation = await AuthService.startImpersonation(req.user!.userId, userId, getClientInfo(req));
+
+        res.status(201).json({
+            success: true,
+            message: 'Impersonation démarrée (lecture seule)',
+            data: impersonation
+        });
+    } catch (error) {
+        console.error('Erreur lors du démarrage de l\'impersonation:', error);
+
+        if (error instanceof Error) {
+            if (error.message === 'Utilisateur non trouvé') {
+                return res.status(404).json({
+                    success: false,
+                    message: error.message
+                });
+            }
+            if (error.message.includes('impersoner')) {
+                return res.status(400).json({
+                    success: false,
+                    message: error.message
+                });
+            }
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors du démarrage de l\'impersonation'
+        });
+    }
+});
+
+/* 🔒 ROUTE PROTÉGÉE ADMIN - Impersonations en cours de l'admin connecté */
+router.get('/impersonations', authMiddleware, requirePermission('users:impersonate'), async (req: Request, res: Response) => {
+    try {
+        const impersonations = await SessionService.listActiveImpersonations(req.user!.userId);
+
+        res.json({
+            success: true,
+            data: impersonations
+        });
+    } catch (error) {
+        console.error('Erreur lors de la récupération des impersonations:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la récupération des impersonations'
+        });
+    }
+});
+
+/* 🔒 ROUTE PROTÉGÉE ADMIN - Terminer une impersonation
+Appelée avec le token admin (le token d'impersonation est en lecture seule) */
+router.delete('/impersonations/:sessionId', authMiddleware, requirePermission('users:impersonate'), async (req: Request, res: Response) => {
+    try {
+        await AuthService.stopImpersonation(req.user!.userId, req.params.sessionId, getClientInfo(req));
+
+        res.json({
+            success: true,
+            message: 'Impersonation terminée'
+        });
+    } catch (error) {
+        console.error('Erreur lors de la fin de l\'impersonation:', error);
+
+        if (error instanceof Error && error.message.includes('non trouvée')) {
+            return res.status(404).json({
+                success: false,
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la fin de l\'impersonation'
+        });
+    }
+});
+
+/* ------------------------ CLÉS D'API (PARTENAIRES) ----------------------------- */
+
+/* 🔒 ROUTE PROTÉGÉE ADMIN - Lister les clés d'API
+Le hash n'est jamais renvoyé, seul le préfixe permet d'identifier une clé */
+router.get('/api-keys', authMiddleware, requirePermission('api_keys:manage'), async (req: Request, res: Response) => {
+    try {
+        const apiKeys = await ApiKeyService.listKeys();
+
+        res.json({
+            success: true,
+            data: apiKeys,
+            availableScopes: API_KEY_SCOPES
+        });
+    } catch (error) {
+        console.error('Erreur lors de la récupération des clés d\'API:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la récupération des clés d\'API'
+        });
+    }
+});
+
+/* 🔒 ROUTE PROTÉGÉE ADMIN - Créer une clé d'API
+Body : { name, scopes: ['animals:read', 'animals:write'], expiresAt? (date ISO) }
+La clé en clair n'est affichée qu'une seule fois dans la réponse */
+router.post('/api-keys', authMiddleware, requirePermission('api_keys:manage'), async (req: Request, res: Response) => {
+    try {
+        const { name, scopes, expiresAt } = req.body;
+
+        if (!name || !Array.isArray(scopes)) {
+            return res.status(400).json({
+                success: false,
+                message: 'Le nom et la liste des permissions (scopes) sont requis'
+            });
+        }
+
+        let expiryDate: Date | null = null;
+        if (expiresAt) {
+            expiryDate = new Date(expiresAt);
+            if (isNaN(expiryDate.getTime())) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'Date d\'expiration invalide'
+                });
+            }
+        }
+
+        const result = await ApiKeyService.createKey({ name, scopes, expiresAt: expiryDate }, req.user!.userId, getClientInfo(req));
+
+        res.status(201).json({
+            success: true,
+            message: 'Clé d\'API créée : conservez-la, elle ne sera plus affichée',
+            data: result
+        });
+    } catch (error) {
+        console.error('Erreur lors de la création de la clé d\'API:', error);
+
+        if (error instanceof Error && (error.message.includes('invalide') || error.message.includes('requis') || error.message.includes('futur'))) {
+            return res.status(400).json({
+                success: false,
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la création de la clé d\'API'
+        });
+    }
+});
+
+/* 🔒 ROUTE PROTÉGÉE ADMIN - Journal des requêtes d'une clé d'API
+Paginé : page/limit (max 200) ou cursor, sort (createdAt, statusCode, path), order */
+router.get('/api-keys/:id/requests', authMiddleware, requirePermission('api_keys:manage'), async (req: Request, res: Response) => {
+    try {
+        const apiKeyId = parseInt(req.params.id);
+
+        if (isNaN(apiKeyId)) {
+            return res.status(400).json({
+                success: false,
+                message: 'ID de clé invalide'
+            });
+        }
+
+        const pagination = parsePagination(req.query, API_KEY_REQUEST_PAGINATION);
+        const page = await ApiKeyService.getRequests(apiKeyId, pagination);
+
+        res.json({
+            success: true,
+            data: page.items,
+            pagination: page.pagination,
+            apiKey: page.apiKey
+        });
+    } catch (error) {
+        console.error('Erreur lors de la récupération du journal de la clé d\'API:', error);
+
+        if (isPaginationError(error)) {
+            return res.status(400).json({
+                success: false,
+                message: (error as Error).message
+            });
+        }
+
+        if (error instanceof Error && error.message.includes('non trouvée')) {
+            return res.status(404).json({
+                success: false,
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la récupération du journal de la clé d\'API'
+        });
+    }
+});
+
+/* 🔒 ROUTE PROTÉGÉE ADMIN - Révoquer une clé d'API
+La clé et son journal sont conservés, mais elle n'est plus acceptée */
+router.delete('/api-keys/:id', authMiddleware, requirePermission('api_keys:manage'), async (req: Request, res: Response) => {
+    try {
+        const apiKeyId = parseInt(req.params.id);
+
+        if (isNaN(apiKeyId)) {
+            return res.status(400).json({
+                success: false,
+                message: 'ID de clé invalide'
+            });
+        }
+
+        const apiKey = await ApiKeyService.revokeKey(apiKeyId, req.user!.userId, getClientInfo(req));
+
+        res.json({
+            success: true,
+            message: 'Clé d\'API révoquée',
+            data: apiKey
+        });
+    } catch (error) {
+        console.error('Erreur lors de la révocation de la clé d\'API:', error);
+
+        if (error instanceof Error) {
+            if (error.message.includes('non trouvée')) {
+                return res.status(404).json({
+                    success: false,
+                    message: error.message
+                });
+            }
+            if (error.message.includes('déjà révoquée')) {
+                return res.status(400).json({
+                    success: false,
+                    message: error.message
+                });
+            }
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la révocation de la clé d\'API'
+        });
+    }
+});
+
+export default router;
@@ -1,5 +1,5 @@
 import { Router, Request, Response } from "express"
-import { authMiddleware, requireAdmin } from "../middleware/authmiddleware"
+import { authMiddleware, requirePermission } from "../middleware/authmiddleware"
 import { AdminDashboardService } from "../services/admindashboardservice"
 
 const router = Router()
@@ -10,7 +10,7 @@ const router = Router()
 Responsabilité : Récupérer toutes les données du dashboard administrateur
 Inclut toutes les statistiques du site + activité récente */
 
-router.get('/admin/dashboard', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.get('/admin/dashboard', authMiddleware, requirePermission('dashboard:read'), async (req: Request, res: Response) => {
     try {
         const result = await AdminDashboardService.getAdminDashboard()
 
@@ -41,7 +41,7 @@ router.get('/admin/dashboard', authMiddleware, requireAdmin, async (req: Request
 Responsabilité : Récupérer un résumé rapide pour widgets/cartes admin
 Plus léger que le dashboard complet, pour les mises à jour fréquentes */
 
-router.get('/admin/dashboard/stats', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.get('/admin/dashboard/stats', authMiddleware, requirePermission('dashboard:read'), async (req: Request, res: Response) => {
     try {
         const result = await AdminDashboardService.getAdminQuickStats()
 
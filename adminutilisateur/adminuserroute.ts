@@ -1,6 +1,8 @@
 import { Router, Request, Response } from "express"
-import { authMiddleware, requireAdmin } from "../middleware/authmiddleware"
-import { AdminUserService } from "../services/adminuserservice"
+import { authMiddleware, getClientInfo, requirePermission } from "../middleware/authmiddleware"
+import { AdminUserService, UpdateUserData, UPDATABLE_USER_FIELDS, USER_PAGINATION } from "../services/adminuserservice"
+import { isPaginationError, parsePagination } from "../lib/pagination"
+import { RoleService } from "../services/roleservice"
 
 const router = Router()
 
@@ -8,19 +10,22 @@ const router = Router()
 
 /* 🔒 ROUTE PROTÉGÉE ADMIN - Liste tous les utilisateurs
 Responsabilité : Récupérer tous les utilisateurs avec leurs statistiques
-Inclut nombre d'adoptions, dons, etc. */
+Inclut nombre d'adoptions, dons, etc.
+Paginée : page/limit (ou cursor), sort (createdAt, lastname, firstname, email, role, accountStatus), order */
 
-router.get('/admin/users', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.get('/admin/users', authMiddleware, requirePermission('users:read'), async (req: Request, res: Response) => {
     try {
         console.log('🔥 Route GET /admin/users appelée par admin:', req.user!.userId)
 
-        const result = await AdminUserService.getAllUsers()
+        const pagination = parsePagination(req.query, USER_PAGINATION)
+        const result = await AdminUserService.getAllUsers(pagination)
 
         if (result.success) {
             return res.status(200).json({
                 success: true,
                 message: 'Utilisateurs récupérés avec succès',
-                data: result.data
+                data: result.data!.items,
+                pagination: result.data!.pagination
             })
         } else {
             return res.status(500).json({
@@ -31,6 +36,13 @@ router.get('/admin/users', authMiddleware, requireAdmin, async (req: Request, re
     } catch (error) {
         console.error('❌ Erreur lors de la récupération des utilisateurs:', error)
 
+        if (isPaginationError(error)) {
+            return res.status(400).json({
+                success: false,
+                message: (error as Error).message
+            })
+        }
+
         res.status(500).json({
             success: false,
             message: 'Erreur lors de la récupération des utilisateurs',
@@ -43,7 +55,7 @@ router.get('/admin/users', authMiddleware, requireAdmin, async (req: Request, re
 Responsabilité : Récupérer les détails complets d'un utilisateur spécifique
 Inclut toutes ses adoptions, dons, messages, etc. */
 
-router.get('/admin/users/:id', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.get('/admin/users/:id', authMiddleware, requirePermission('users:read'), async (req: Request, res: Response) => {
     try {
         const userId = parseInt(req.params.id)
 
@@ -85,7 +97,7 @@ router.get('/admin/users/:id', authMiddleware, requireAdmin, async (req: Request
 Responsabilité : Créer un nouvel utilisateur dans le système
 Génère un mot de passe temporaire si non fourni */
 
-router.post('/admin/users', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.post('/admin/users', authMiddleware, requirePermission('users:manage'), async (req: Request, res: Response) => {
     try {
         const { firstname, lastname, email, phone, role, password } = req.body
 
@@ -97,11 +109,11 @@ router.post('/admin/users', authMiddleware, requireAdmin, async (req: Request, r
             })
         }
 
-        // Validation du rôle
-        if (!['user', 'admin'].includes(role)) {
+        // Validation du rôle (doit exister dans la table des rôles)
+        if (!(await RoleService.roleExists(role))) {
             return res.status(400).json({
                 success: false,
-                message: 'Le rôle doit être "user" ou "admin"'
+                message: `Rôle "${role}" inconnu`
             })
         }
 
@@ -150,12 +162,13 @@ router.post('/admin/users', authMiddleware, requireAdmin, async (req: Request, r
 
 /* 🔒 ROUTE PROTÉGÉE ADMIN - Modifier un utilisateur
 Responsabilité : Mettre à jour les informations d'un utilisateur
-Permet de modifier tous les champs sauf le mot de passe */
+Champs modifiables : firstname, lastname, email, phone, role (tout autre champ est refusé)
+Statut du compte, 2FA et mot de passe passent par leurs routes dédiées */
 
-router.put('/admin/users/:id', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.put('/admin/users/:id', authMiddleware, requirePermission('users:manage'), async (req: Request, res: Response) => {
     try {
         const userId = parseInt(req.params.id)
-        const updateData = req.body
+        const body = req.body ?? {}
 
         if (isNaN(userId)) {
             return res.status(400).json({
@@ -164,11 +177,31 @@ router.put('/admin/users/:id', authMiddleware, requireAdmin, async (req: Request
             })
         }
 
+        const forbiddenFields = Object.keys(body).filter(field => !(UPDATABLE_USER_FIELDS as readonly string[]).includes(field))
+        if (forbiddenFields.length > 0) {
+            return res.status(400).json({
+                success: false,
+                message: `Champ(s) non modifiable(s) : ${forbiddenFields.join(', ')}. Champs autorisés : ${UPDATABLE_USER_FIELDS.join(', ')}`
+            })
+        }
+
+        const { firstname, lastname, email, phone, role } = body as UpdateUserData
+        const updateData: UpdateUserData = Object.fromEntries(
+            Object.entries({ firstname, lastname, email, phone, role }).filter(([, value]) => value !== undefined)
+        )
+
+        if (Object.entries(updateData).some(([field, value]) => typeof value !== 'string' && !(field === 'phone' && value === null))) {
+            return res.status(400).json({
+                success: false,
+                message: 'Les champs firstname, lastname, email, phone et role doivent être des textes'
+            })
+        }
+
         // Validation du rôle si fourni
-        if (updateData.role && !['user', 'admin'].includes(updateData.role)) {
+        if (updateData.role && !(await RoleService.roleExists(updateData.role))) {
             return res.status(400).json({
                 success: false,
-                message: 'Le rôle doit être "user" ou "admin"'
+                message: `Rôle "${updateData.role}" inconnu`
             })
         }
 
@@ -185,7 +218,7 @@ router.put('/admin/users/:id', authMiddleware, requireAdmin, async (req: Request
 
         console.log('🔥 Route PUT /admin/users/:id appelée pour userId:', userId)
 
-        const result = await AdminUserService.updateUser(userId, updateData)
+        const result = await AdminUserService.updateUser(userId, updateData, req.user!.userId, getClientInfo(req))
 
         if (result.success) {
             return res.status(200).json({
@@ -211,10 +244,10 @@ router.put('/admin/users/:id', authMiddleware, requireAdmin, async (req: Request
 })
 
 /* 🔒 ROUTE PROTÉGÉE ADMIN - Supprimer un utilisateur
-Responsabilité : Supprimer définitivement un utilisateur du système
-⚠️ ATTENTION : Supprime aussi toutes ses données (adoptions, dons, etc.) */
+Responsabilité : Supprimer un utilisateur du système
+Le compte est anonymisé : l'historique des adoptions et les dons sont conservés */
 
-router.delete('/admin/users/:id', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.delete('/admin/users/:id', authMiddleware, requirePermission('users:manage'), async (req: Request, res: Response) => {
     try {
         const userId = parseInt(req.params.id)
         const adminUserId = req.user!.userId
@@ -236,7 +269,7 @@ router.delete('/admin/users/:id', authMiddleware, requireAdmin, async (req: Requ
 
         console.log('🔥 Route DELETE /admin/users/:id appelée pour userId:', userId)
 
-        const result = await AdminUserService.deleteUser(userId)
+        const result = await AdminUserService.deleteUser(userId, adminUserId, getClientInfo(req))
 
         if (result.success) {
             return res.status(200).json({
@@ -261,10 +294,10 @@ router.delete('/admin/users/:id', authMiddleware, requireAdmin, async (req: Requ
 })
 
 /* 🔒 ROUTE PROTÉGÉE ADMIN - Changer le rôle d'un utilisateur
-Responsabilité : Changer le rôle d'un utilisateur (user ↔ admin)
+Responsabilité : Changer le rôle d'un utilisateur (user, admin ou rôle du refuge)
 Route spécialisée pour la gestion des rôles */
 
-router.patch('/admin/users/:id/role', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.patch('/admin/users/:id/role', authMiddleware, requirePermission('users:manage'), async (req: Request, res: Response) => {
     try {
         const userId = parseInt(req.params.id)
         const { role } = req.body
@@ -277,10 +310,10 @@ router.patch('/admin/users/:id/role', authMiddleware, requireAdmin, async (req:
             })
         }
 
-        if (!role || !['user', 'admin'].includes(role)) {
+        if (!role || !(await RoleService.roleExists(role))) {
             return res.status(400).json({
                 success: false,
-                message: 'Le rôle doit être "user" ou "admin"'
+                message: role ? `Rôle "${role}" inconnu` : 'Le rôle est requis'
             })
         }
 
@@ -294,7 +327,7 @@ router.patch('/admin/users/:id/role', authMiddleware, requireAdmin, async (req:
 
         console.log('🔥 Route PATCH /admin/users/:id/role appelée pour userId:', userId, 'nouveau rôle:', role)
 
-        const result = await AdminUserService.changeUserRole(userId, role)
+        const result = await AdminUserService.changeUserRole(userId, role, adminUserId, getClientInfo(req))
 
         if (result.success) {
             return res.status(200).json({
@@ -319,11 +352,169 @@ router.patch('/admin/users/:id/role', authMiddleware, requireAdmin, async (req:
     }
 })
 
+/* 🔒 ROUTE PROTÉGÉE ADMIN - Déverrouiller un compte
+Responsabilité : Lever le verrouillage temporaire posé après trop d'échecs de connexion
+Remet à zéro le compteur d'échecs du compte */
+
+router.post('/admin/users/:id/unlock', authMiddleware, requirePermission('users:manage'), async (req: Request, res: Response) => {
+    try {
+        const userId = parseInt(req.params.id)
+
+        if (isNaN(userId)) {
+            return res.status(400).json({
+                success: false,
+                message: 'ID utilisateur invalide'
+            })
+        }
+
+        console.log('🔥 Route POST /admin/users/:id/unlock appelée pour userId:', userId)
+
+        const result = await AdminUserService.unlockUser(userId)
+
+        if (result.success) {
+            return res.status(200).json({
+                success: true,
+                message: 'Compte déverrouillé avec succès'
+            })
+        } else {
+            return res.status(result.error === 'Utilisateur non trouvé' ? 404 : 400).json({
+                success: false,
+                message: result.error
+            })
+        }
+    } catch (error) {
+        console.error('❌ Erreur lors du déverrouillage du compte:', error)
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors du déverrouillage du compte',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE ADMIN - Suspendre ou désactiver un compte
+Responsabilité : Bloquer l'accès d'un utilisateur avec un motif
+Body : { reason, status?: 'suspended' | 'deactivated' (défaut suspended), until?: date de fin de suspension } */
+
+router.patch('/admin/users/:id/suspend', authMiddleware, requirePermission('users:manage'), async (req: Request, res: Response) => {
+    try {
+        const userId = parseInt(req.params.id)
+        const { reason, status = 'suspended', until } = req.body
+
+        if (isNaN(userId)) {
+            return res.status(400).json({
+                success: false,
+                message: 'ID utilisateur invalide'
+            })
+        }
+
+        if (userId === req.user!.userId) {
+            return res.status(400).json({
+                success: false,
+                message: 'Vous ne pouvez pas suspendre votre propre compte'
+            })
+        }
+
+        if (!reason || typeof reason !== 'string' || reason.trim() === '') {
+            return res.status(400).json({
+                success: false,
+                message: 'Le motif de la suspension est requis'
+            })
+        }
+
+        if (status !== 'suspended' && status !== 'deactivated') {
+            return res.status(400).json({
+                success: false,
+                message: 'Statut invalide. Utilisez "suspended" ou "deactivated"'
+            })
+        }
+
+        const untilDate = until ? new Date(until) : undefined
+        if (untilDate && isNaN(untilDate.getTime())) {
+            return res.status(400).json({
+                success: false,
+                message: 'Date de fin de suspension invalide'
+            })
+        }
+
+        console.log('🔥 Route PATCH /admin/users/:id/suspend appelée pour userId:', userId, 'statut:', status)
+
+        const result = await AdminUserService.suspendUser(userId, {
+            status,
+            reason: reason.trim().slice(0, 500),
+            until: untilDate
+        }, req.user!.userId, getClientInfo(req))
+
+        if (result.success) {
+            return res.status(200).json({
+                success: true,
+                message: status === 'deactivated' ? 'Compte désactivé avec succès' : 'Compte suspendu avec succès',
+                data: result.data
+            })
+        } else {
+            return res.status(result.error === 'Utilisateur non trouvé' ? 404 : 400).json({
+                success: false,
+                message: result.error
+            })
+        }
+    } catch (error) {
+        console.error('❌ Erreur lors de la suspension du compte:', error)
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la suspension du compte',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE ADMIN - Réactiver un compte
+Responsabilité : Lever une suspension ou une désactivation */
+
+router.patch('/admin/users/:id/reactivate', authMiddleware, requirePermission('users:manage'), async (req: Request, res: Response) => {
+    try {
+        const userId = parseInt(req.params.id)
+
+        if (isNaN(userId)) {
+            return res.status(400).json({
+                success: false,
+                message: 'ID utilisateur invalide'
+            })
+        }
+
+        console.log('🔥 Route PATCH /admin/users/:id/reactivate appelée pour userId:', userId)
+
+        const result = await AdminUserService.reactivateUser(userId, req.user!.userId, getClientInfo(req))
+
+        if (result.success) {
+            return res.status(200).json({
+                success: true,
+                message: 'Compte réactivé avec succès',
+                data: result.data
+            })
+        } else {
+            return res.status(result.error === 'Utilisateur non trouvé' ? 404 : 400).json({
+                success: false,
+                message: result.error
+            })
+        }
+    } catch (error) {
+        console.error('❌ Erreur lors de la réactivation du compte:', error)
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la réactivation du compte',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
 /* 🔒 ROUTE PROTÉGÉE ADMIN - Statistiques des utilisateurs
 Responsabilité : Récupérer des statistiques rapides sur les utilisateurs
 Pour dashboard admin et widgets */
 
-router.get('/admin/users-stats', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.get('/admin/users-stats', authMiddleware, requirePermission('users:read'), async (req: Request, res: Response) => {
     try {
         console.log('🔥 Route GET /admin/users-stats appelée')
 
@@ -1,11 +1,82 @@
-import { Router, Request, Response } from "express"
-import { AnimalService } from "../services/animalservice" 
-import { authMiddleware, requireAdmin } from "../middleware/authmiddleware"
+import { Router, Request, Response, NextFunction } from "express"
+import multer from "multer"
+import { AnimalService, ANIMAL_PAGINATION } from "../services/animalservice" 
+import { buildPage, isPaginationError, PaginationOptions, parsePagination, toPrismaArgs } from "../lib/pagination"
+import { AnimalPhotoService } from "../services/animalphotoservice"
+import { ANIMAL_TEXT_SEARCH_PAGINATION } from "../services/animalsearchservice"
+import { AnimalStatusService, StatusChangeContext } from "../services/animalstatusservice"
+import { AnimalIntakeInput, AnimalIntakeService } from "../services/animalintakeservice"
+import { ANIMAL_TRAIT_FIELDS, isTraitError, parseTraitFilters } from "../lib/animaltraits"
+import { AdopterMatchService, MATCH_PAGINATION } from "../services/adoptermatchservice"
+import { AdopterQuestionnaire, isQuestionnaireError } from "../lib/adoptermatch"
+import { authMiddleware, authOrApiKeyMiddleware, requirePermission, requireVerifiedEmail } from "../middleware/authmiddleware"
 import { PrismaClient } from "@prisma/client"
 
 const prisma = new PrismaClient()
 const router = Router()
 
+// Tris autorisés sur la liste admin des demandes d'adoption
+const ADOPTION_PAGINATION: PaginationOptions<'createdAt' | 'status' | 'lastname'> = {
+    sortFields: ['createdAt', 'status', 'lastname'],
+    defaultSort: 'createdAt',
+    defaultOrder: 'desc'
+}
+
+// Upload des photos en mémoire : les images sont redimensionnées avant d'être écrites sur le stockage
+const photoUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+        fileSize: AnimalPhotoService.MAX_FILE_SIZE_BYTES,
+        files: AnimalPhotoService.MAX_PHOTOS_PER_ANIMAL
+    }
+}).array('photos', AnimalPhotoService.MAX_PHOTOS_PER_ANIMAL)
+
+// Transforme les erreurs de multer (fichier trop lourd, trop de fichiers...) en réponse 400
+const handlePhotoUpload = (req: Request, res: Response, next: NextFunction) => {
+    photoUpload(req, res, (error: unknown) => {
+        if (error instanceof multer.MulterError) {
+            const message = error.code === 'LIMIT_FILE_SIZE'
+                ? `Photo trop volumineuse (${Math.round(AnimalPhotoService.MAX_FILE_SIZE_BYTES / 1024 / 1024)} Mo maximum)`
+                : `Upload invalide : ${error.message} (champ attendu : photos)`
+            return res.status(400).json({
+                success: false,
+                message
+            })
+        }
+        if (error) {
+            return next(error)
+        }
+        next()
+    })
+}
+
+// Auteur d'un changement de statut : utilisateur connecté ou clé API partenaire
+const statusContext = (req: Request): StatusChangeContext => ({
+    actorId: req.user?.userId,
+    apiKeyId: req.apiKey?.id
+})
+
+// Statut HTTP associé aux erreurs d'identification (puce, tatouage) et de fiche d'arrivée
+const identificationErrorStatus = (error: unknown): number | null => {
+    if (!(error instanceof Error)) {
+        return null
+    }
+    if (error.message.includes('déjà enregistré')) {
+        return 409
+    }
+    if (error.message.includes('identification') || error.message.includes('Numéro de') || error.message.includes('Provenance')
+        || error.message.includes('arrivée') || error.message.includes('contact') || error.message.includes('requis pour')) {
+        return 400
+    }
+    return null
+}
+
+// Transition refusée par le cycle de vie, ou statut modifié entre-temps → 409
+const isStatusConflict = (error: unknown): boolean => {
+    return error instanceof Error
+        && (error.message.includes('Transition de statut impossible') || error.message.includes('a déjà le statut')
+            || error.message.includes('changé entre-temps'))
+}
 
 // Interfaces pour typer les données reçues dans les requêtes 
 interface CreateAnimalRequest {
@@ -15,6 +86,11 @@ interface CreateAnimalRequest {
     age: number
     breed: string
     description?: string
+    status?: string // intake, quarantine ou available (par défaut)
+    identifier?: string // Numéro de puce ou de tatouage
+    identifierType?: string // microchip ou tattoo (déduit pour une puce à 15 chiffres)
+    intake?: AnimalIntakeInput // Arrivée au refuge : date, provenance, contact, lieu de découverte
+    // + caractéristiques optionnelles (goodWithChildren, energyLevel, size...) : voir lib/animaltraits.ts
 }
 
 interface UpdateAnimalRequest {
@@ -25,9 +101,14 @@ interface UpdateAnimalRequest {
     breed?: string
     description?: string
     status?: string
+    statusReason?: string // motif enregistré dans l'historique des statuts
+    identifier?: string | null // null pour retirer un numéro erroné
+    identifierType?: string | null
+    // + caractéristiques (goodWithChildren, goodWithDogs, goodWithCats, energyLevel, size, houseTrained, needsGarden, specialNeeds)
 }
 
 interface SearchAnimalRequest {
+    q?: string
     type?: string
     city?: string
     breed?: string
@@ -36,6 +117,10 @@ interface SearchAnimalRequest {
     status?: string
 }
 
+interface ReorderPhotosRequest {
+    photoIds: number[]
+}
+
 interface CreateAdoptionRequest {
     animalId: number
     firstname: string
@@ -45,9 +130,10 @@ interface CreateAdoptionRequest {
 
 /* 🔒 ROUTE PROTÉGÉE UTILISATEUR - Créer une demande d'adoption
 Responsabilité : Permettre à un utilisateur connecté de faire une demande d'adoption
-Validation des données + vérification que l'animal est disponible*/
+Validation des données + vérification que l'animal est disponible
+L'adresse email doit être confirmée (voir requireVerifiedEmail)*/
 
-router.post('/adoptions', authMiddleware, async (req: Request, res: Response) => {
+router.post('/adoptions', authMiddleware, requireVerifiedEmail, async (req: Request, res: Response) => {
     try {
         const userId = req.user!.userId 
         const { animalId, firstname, lastname, phone } = req.body as CreateAdoptionRequest 
@@ -312,20 +398,30 @@ router.get('/adoptions/:id', authMiddleware, async (req: Request, res: Response)
  /* ------------------------ ROUTES PUBLIQUES (Vue utilisateur)----------------------------
 Responsabilité : Récupérer et retourner la liste des animaux disponibles à l'adoption
 Utilisée pour alimenter la page d'adoption avec les vignettes d'animaux
+Paginée : page/limit (ou cursor), sort (createdAt, name, age, city, type, breed), order
 */
 router.get('/animals', async (req: Request, res: Response) => {
     try {
-        const animals = await AnimalService.getAvailableAnimals()
+        const pagination = parsePagination(req.query, ANIMAL_PAGINATION)
+        const page = await AnimalService.getAvailableAnimals(pagination)
 
         res.json({
             success: true,
             message: 'Liste des animaux disponibles récupérée avec succès',
-            data: animals
+            data: page.items,
+            pagination: page.pagination
         })
 
     } catch (error) {
         console.error('Erreur lors de la récupération des animaux:', error)
 
+        if (isPaginationError(error)) {
+            return res.status(400).json({
+                success: false,
+                message: (error as Error).message
+            })
+        }
+
         res.status(500).json({
             success: false,
             message: 'Erreur lors de la récupération des animaux',
@@ -337,14 +433,28 @@ router.get('/animals', async (req: Request, res: Response) => {
 /* 🟢 ROUTE PUBLIQUE - Rechercher des animaux avec filtres
 Responsabilité : Permettre la recherche d'animaux selon différents critères
 Gère les paramètres de recherche envoyés via query string
+q : texte libre (ex : "labrador calme avec enfants") cherché dans le nom, la race, la description et la ville,
+résultats classés par pertinence (sort=relevance par défaut) avec extraits surlignés dans search.highlight
+Caractère et besoins : goodWithChildren, goodWithDogs, goodWithCats, houseTrained, needsGarden, specialNeeds (true/false),
+energyLevel (low, medium, high) et size (small, medium, large), plusieurs valeurs séparées par des virgules
 */
 router.get('/animals/search', async (req: Request, res: Response) => {
     try {
-        const { type, city, breed, minAge, maxAge, status } = req.query as SearchAnimalRequest
+        const { q, type, city, breed, minAge, maxAge, status } = req.query as SearchAnimalRequest
 
         // Validation et conversion des paramètres
         const filters: any = {}
 
+        if (q !== undefined) {
+            if (typeof q !== 'string' || q.length > 200) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'La recherche texte ne peut pas dépasser 200 caractères'
+                })
+            }
+            if (q.trim()) filters.q = q.trim()
+        }
+
         if (type) filters.type = type
         if (city) filters.city = city
         if (breed) filters.breed = breed
@@ -381,18 +491,30 @@ router.get('/animals/search', async (req: Request, res: Response) => {
             })
         }
 
-        const animals = await AnimalService.searchAnimals(filters)
+        // Caractère et besoins (goodWithChildren=true, needsGarden=false, energyLevel=low,medium...)
+        Object.assign(filters, parseTraitFilters(req.query))
+
+        const pagination = parsePagination(req.query, filters.q ? ANIMAL_TEXT_SEARCH_PAGINATION : ANIMAL_PAGINATION)
+        const page = await AnimalService.searchAnimals(filters, pagination)
 
         res.json({
             success: true,
-            message: `${animals.length} animal(s) trouvé(s)`,
-            data: animals,
+            message: `${page.pagination.total} animal(s) trouvé(s)`,
+            data: page.items,
+            pagination: page.pagination,
             filters: filters // Retourner les filtres appliqués pour info
         })
 
     } catch (error) {
         console.error('Erreur lors de la recherche d\'animaux:', error)
 
+        if (isPaginationError(error) || isTraitError(error)) {
+            return res.status(400).json({
+                success: false,
+                message: (error as Error).message
+            })
+        }
+
         res.status(500).json({
             success: false,
             message: 'Erreur lors de la recherche d\'animaux',
@@ -401,6 +523,108 @@ router.get('/animals/search', async (req: Request, res: Response) => {
     }
 })
 
+/* 🔒 ROUTE PROTÉGÉE UTILISATEUR - Voir son questionnaire adoptant
+Responsabilité : Retourner les réponses au questionnaire de mode de vie (null s'il n'est pas encore rempli)
+*/
+router.get('/questionnaire', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const questionnaire = await AdopterMatchService.getQuestionnaire(req.user!.userId)
+
+        res.json({
+            success: true,
+            data: questionnaire
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de la récupération du questionnaire adoptant:', error)
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la récupération du questionnaire',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE UTILISATEUR - Remplir son questionnaire adoptant
+Responsabilité : Enregistrer le mode de vie de l'adoptant, utilisé pour les suggestions (/animals/matches)
+Body : { housingType (apartment, house), hasGarden, timeAtHome (mostly_away, part_time, mostly_home),
+hasChildren, hasDogs, hasCats, experience (none, some, experienced) } - toutes les réponses sont requises
+*/
+router.put('/questionnaire', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const questionnaire = await AdopterMatchService.saveQuestionnaire(req.user!.userId, req.body as Partial<AdopterQuestionnaire>)
+
+        res.json({
+            success: true,
+            message: 'Questionnaire enregistré avec succès',
+            data: questionnaire
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de l\'enregistrement du questionnaire adoptant:', error)
+
+        if (isQuestionnaireError(error)) {
+            return res.status(400).json({
+                success: false,
+                message: (error as Error).message
+            })
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de l\'enregistrement du questionnaire',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE UTILISATEUR - Animaux compatibles avec son mode de vie
+Responsabilité : Classer les animaux disponibles selon le questionnaire adoptant
+Chaque animal reçoit match { score (0 à 100), compatible, reasons } : les points de chaque critère et leur explication
+compatibleOnly=true : masquer les animaux avec une incompatibilité (enfants, chiens, chats, jardin)
+Paginée : page/limit, order (sort=score)
+Déclarée avant /animals/:id pour ne pas être interprétée comme un ID
+*/
+router.get('/animals/matches', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const pagination = parsePagination(req.query, MATCH_PAGINATION)
+        const page = await AdopterMatchService.getMatches(req.user!.userId, pagination, {
+            compatibleOnly: req.query.compatibleOnly === 'true'
+        })
+
+        res.json({
+            success: true,
+            message: `${page.pagination.total} animal(s) classé(s) selon votre questionnaire`,
+            data: page.items,
+            pagination: page.pagination,
+            questionnaire: page.questionnaire
+        })
+
+    } catch (error) {
+        console.error('Erreur lors du calcul des correspondances:', error)
+
+        if (isPaginationError(error)) {
+            return res.status(400).json({
+                success: false,
+                message: (error as Error).message
+            })
+        }
+        if (error instanceof Error && error.message.startsWith('Questionnaire adoptant non trouvé')) {
+            return res.status(404).json({
+                success: false,
+                message: error.message
+            })
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors du calcul des correspondances',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
 /* 🟢 ROUTE PUBLIQUE - Récupérer un animal par son ID
 Responsabilité : Afficher les détails complets d'un animal spécifique
 Utilisée pour la page de détail d'un animal avant adoption
@@ -441,13 +665,54 @@ router.get('/animals/:id', async (req: Request, res: Response) => {
     }
 })
 
+/* 🔒 ROUTE PROTÉGÉE ADMIN - Historique des statuts d'un animal
+Responsabilité : Retracer le parcours de l'animal (arrivée, quarantaine, réservation, adoption, retour...)
+Chaque changement indique l'ancien et le nouveau statut, l'auteur (ou la clé d'API) et le motif
+*/
+router.get('/animals/:id/history', authOrApiKeyMiddleware, requirePermission('animals:read'), async (req: Request, res: Response) => {
+    try {
+        const animalId = parseInt(req.params.id)
+
+        if (isNaN(animalId)) {
+            return res.status(400).json({
+                success: false,
+                message: 'ID d\'animal invalide'
+            })
+        }
+
+        const history = await AnimalStatusService.getHistory(animalId)
+
+        res.json({
+            success: true,
+            data: history
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de la récupération de l\'historique des statuts:', error)
+
+        if (error instanceof Error && error.message === 'Animal non trouvé') {
+            return res.status(404).json({
+                success: false,
+                message: error.message
+            })
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la récupération de l\'historique des statuts',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
 /* 🔒 ROUTE PROTÉGÉE ADMIN - Créer un nouvel animal
 Responsabilité : Permettre aux administrateurs d'ajouter des animaux dans le système
 Validation des données d'entrée + délégation au service
+Accessible aussi aux partenaires et scripts d'import avec une clé d'API (header X-API-Key, scope animals:write)
 */
-router.post('/animals', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.post('/animals', authOrApiKeyMiddleware, requirePermission('animals:write'), async (req: Request, res: Response) => {
     try {
-        const { type, name, city, age, breed, description } = req.body as CreateAnimalRequest
+        const { type, name, city, age, breed, description, status, identifier, identifierType, intake } = req.body as CreateAnimalRequest
 
         // Validation des champs obligatoires
         if (!type || !name || !city || !breed) {
@@ -489,8 +754,13 @@ router.post('/animals', authMiddleware, requireAdmin, async (req: Request, res:
             city: city.trim(),
             age,
             breed: breed.trim(),
-            description: description?.trim()
-        })
+            description: description?.trim(),
+            status,
+            identifier,
+            identifierType,
+            intake,
+            traits: req.body
+        }, statusContext(req))
 
         res.status(201).json({
             success: true,
@@ -501,6 +771,21 @@ router.post('/animals', authMiddleware, requireAdmin, async (req: Request, res:
     } catch (error) {
         console.error('Erreur lors de la création de l\'animal:', error)
 
+        if (error instanceof Error && (error.message.includes('Statut') || isTraitError(error))) {
+            return res.status(400).json({
+                success: false,
+                message: error.message
+            })
+        }
+
+        const status = identificationErrorStatus(error)
+        if (status) {
+            return res.status(status).json({
+                success: false,
+                message: (error as Error).message
+            })
+        }
+
         res.status(500).json({
             success: false,
             message: 'Erreur lors de la création de l\'animal',
@@ -513,10 +798,10 @@ router.post('/animals', authMiddleware, requireAdmin, async (req: Request, res:
 Responsabilité : Permettre aux administrateurs de mettre à jour les informations d'un animal
 Validation des données + gestion des erreurs métier
 */
-router.put('/animals/:id', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.put('/animals/:id', authOrApiKeyMiddleware, requirePermission('animals:write'), async (req: Request, res: Response) => {
     try {
         const animalId = parseInt(req.params.id)
-        const { type, name, city, age, breed, description, status } = req.body as UpdateAnimalRequest
+        const { type, name, city, age, breed, description, status, statusReason, identifier, identifierType } = req.body as UpdateAnimalRequest
 
         if (isNaN(animalId)) {
             return res.status(400).json({
@@ -526,7 +811,8 @@ router.put('/animals/:id', authMiddleware, requireAdmin, async (req: Request, re
         }
 
         // Vérifier qu'au moins un champ est fourni pour la mise à jour
-        if (!type && !name && !city && age === undefined && !breed && !description && !status) {
+        const hasTraits = ANIMAL_TRAIT_FIELDS.some(field => req.body[field] !== undefined)
+        if (!type && !name && !city && age === undefined && !breed && !description && !status && identifier === undefined && !hasTraits) {
             return res.status(400).json({
                 success: false,
                 message: 'Vous devez fournir au moins un champ à mettre à jour'
@@ -556,8 +842,11 @@ router.put('/animals/:id', authMiddleware, requireAdmin, async (req: Request, re
             age,
             breed,
             description,
-            status
-        })
+            status,
+            identifier,
+            identifierType,
+            traits: req.body
+        }, { ...statusContext(req), reason: statusReason })
 
         res.json({
             success: true,
@@ -575,12 +864,26 @@ router.put('/animals/:id', authMiddleware, requireAdmin, async (req: Request, re
                     message: error.message
                 })
             }
-            if (error.message.includes('Statut invalide')) {
+            if (error.message.includes('Statut invalide') || isTraitError(error)) {
                 return res.status(400).json({
                     success: false,
                     message: error.message
                 })
             }
+            if (isStatusConflict(error)) {
+                return res.status(409).json({
+                    success: false,
+                    message: error.message
+                })
+            }
+        }
+
+        const status = identificationErrorStatus(error)
+        if (status) {
+            return res.status(status).json({
+                success: false,
+                message: (error as Error).message
+            })
         }
 
         res.status(500).json({
@@ -595,7 +898,7 @@ router.put('/animals/:id', authMiddleware, requireAdmin, async (req: Request, re
 Responsabilité : Permettre aux administrateurs de supprimer un animal du système
 Avec vérifications de sécurité (pas d'adoptions en cours)
 */
-router.delete('/animals/:id', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.delete('/animals/:id', authOrApiKeyMiddleware, requirePermission('animals:write'), async (req: Request, res: Response) => {
     try {
         const animalId = parseInt(req.params.id)
 
@@ -643,7 +946,7 @@ router.delete('/animals/:id', authMiddleware, requireAdmin, async (req: Request,
 Responsabilité : Changer le statut d'un animal vers "adopté"
 Utilisée quand une adoption est finalisée
 */
-router.patch('/animals/:id/adopt', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.patch('/animals/:id/adopt', authOrApiKeyMiddleware, requirePermission('animals:write'), async (req: Request, res: Response) => {
     try {
         const animalId = parseInt(req.params.id)
 
@@ -654,7 +957,7 @@ router.patch('/animals/:id/adopt', authMiddleware, requireAdmin, async (req: Req
             })
         }
 
-        const animal = await AnimalService.markAsAdopted(animalId)
+        const animal = await AnimalService.markAsAdopted(animalId, statusContext(req))
 
         res.json({
             success: true,
@@ -678,6 +981,12 @@ router.patch('/animals/:id/adopt', authMiddleware, requireAdmin, async (req: Req
                     message: error.message
                 })
             }
+            if (isStatusConflict(error)) {
+                return res.status(409).json({
+                    success: false,
+                    message: error.message
+                })
+            }
         }
 
         res.status(500).json({
@@ -692,7 +1001,7 @@ router.patch('/animals/:id/adopt', authMiddleware, requireAdmin, async (req: Req
 Responsabilité : Changer le statut d'un animal vers "available"
 Utilisée si une adoption n'aboutit pas
 */
-router.patch('/animals/:id/available', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.patch('/animals/:id/available', authOrApiKeyMiddleware, requirePermission('animals:write'), async (req: Request, res: Response) => {
     try {
         const animalId = parseInt(req.params.id)
 
@@ -703,7 +1012,7 @@ router.patch('/animals/:id/available', authMiddleware, requireAdmin, async (req:
             })
         }
 
-        const animal = await AnimalService.markAsAvailable(animalId)
+        const animal = await AnimalService.markAsAvailable(animalId, statusContext(req))
 
         res.json({
             success: true,
@@ -714,16 +1023,263 @@ router.patch('/animals/:id/available', authMiddleware, requireAdmin, async (req:
     } catch (error) {
         console.error('Erreur lors de la remise en disponibilité:', error)
 
-        if (error instanceof Error && error.message === 'Animal non trouvé') {
-            return res.status(404).json({
+        if (error instanceof Error) {
+            if (error.message === 'Animal non trouvé') {
+                return res.status(404).json({
+                    success: false,
+                    message: error.message
+                })
+            }
+            if (error.message.includes('déjà disponible')) {
+                return res.status(400).json({
+                    success: false,
+                    message: error.message
+                })
+            }
+            if (isStatusConflict(error)) {
+                return res.status(409).json({
+                    success: false,
+                    message: error.message
+                })
+            }
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la remise en disponibilité',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
+/* ------------------------ PHOTOS DES ANIMAUX ----------------------------- */
+
+// Statut HTTP associé aux erreurs de AnimalPhotoService
+const photoErrorStatus = (error: unknown): number | null => {
+    if (!(error instanceof Error)) {
+        return null
+    }
+    if (error.message === 'Animal non trouvé' || error.message === 'Photo non trouvée') {
+        return 404
+    }
+    if (error.message.includes('Format') || error.message.includes('invalide') || error.message.includes('maximum')
+        || error.message.includes('Aucune photo') || error.message.includes('La liste')) {
+        return 400
+    }
+    return null
+}
+
+/* 🟢 ROUTE PUBLIQUE - Photos d'un animal
+Responsabilité : Retourner les photos (URL de l'image et de la miniature) dans l'ordre d'affichage
+La photo principale est toujours la première
+*/
+router.get('/animals/:id/photos', async (req: Request, res: Response) => {
+    try {
+        const animalId = parseInt(req.params.id)
+
+        if (isNaN(animalId)) {
+            return res.status(400).json({
                 success: false,
-                message: error.message
+                message: 'ID d\'animal invalide'
+            })
+        }
+
+        const photos = await AnimalPhotoService.listPhotos(animalId)
+
+        res.json({
+            success: true,
+            data: photos
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de la récupération des photos:', error)
+
+        const status = photoErrorStatus(error)
+        if (status) {
+            return res.status(status).json({
+                success: false,
+                message: (error as Error).message
             })
         }
 
         res.status(500).json({
             success: false,
-            message: 'Erreur lors de la remise en disponibilité',
+            message: 'Erreur lors de la récupération des photos',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE ADMIN - Ajouter des photos à un animal
+Responsabilité : Recevoir un upload multipart (champ "photos", JPEG/PNG/WebP) et générer les miniatures
+Accessible aussi avec une clé d'API (scope animals:write)
+*/
+router.post('/animals/:id/photos', authOrApiKeyMiddleware, requirePermission('animals:write'), handlePhotoUpload, async (req: Request, res: Response) => {
+    try {
+        const animalId = parseInt(req.params.id)
+
+        if (isNaN(animalId)) {
+            return res.status(400).json({
+                success: false,
+                message: 'ID d\'animal invalide'
+            })
+        }
+
+        const files = (req.files as Express.Multer.File[] | undefined) ?? []
+        const photos = await AnimalPhotoService.addPhotos(animalId, files)
+
+        res.status(201).json({
+            success: true,
+            message: `${photos.length} photo(s) ajoutée(s) avec succès`,
+            data: photos
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de l\'ajout des photos:', error)
+
+        const status = photoErrorStatus(error)
+        if (status) {
+            return res.status(status).json({
+                success: false,
+                message: (error as Error).message
+            })
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de l\'ajout des photos',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE ADMIN - Réordonner les photos d'un animal
+Body : { photoIds: [3, 1, 2] } avec toutes les photos de l'animal dans le nouvel ordre
+*/
+router.put('/animals/:id/photos/order', authOrApiKeyMiddleware, requirePermission('animals:write'), async (req: Request, res: Response) => {
+    try {
+        const animalId = parseInt(req.params.id)
+        const { photoIds } = req.body as ReorderPhotosRequest
+
+        if (isNaN(animalId)) {
+            return res.status(400).json({
+                success: false,
+                message: 'ID d\'animal invalide'
+            })
+        }
+
+        if (!Array.isArray(photoIds) || !photoIds.every(photoId => Number.isInteger(photoId))) {
+            return res.status(400).json({
+                success: false,
+                message: 'photoIds doit être une liste d\'identifiants de photos'
+            })
+        }
+
+        const photos = await AnimalPhotoService.reorderPhotos(animalId, photoIds)
+
+        res.json({
+            success: true,
+            message: 'Ordre des photos mis à jour',
+            data: photos
+        })
+
+    } catch (error) {
+        console.error('Erreur lors du changement d\'ordre des photos:', error)
+
+        const status = photoErrorStatus(error)
+        if (status) {
+            return res.status(status).json({
+                success: false,
+                message: (error as Error).message
+            })
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors du changement d\'ordre des photos',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE ADMIN - Définir la photo principale d'un animal
+Responsabilité : Choisir la photo affichée dans les listes et les résultats de recherche
+*/
+router.patch('/animals/:id/photos/:photoId/primary', authOrApiKeyMiddleware, requirePermission('animals:write'), async (req: Request, res: Response) => {
+    try {
+        const animalId = parseInt(req.params.id)
+        const photoId = parseInt(req.params.photoId)
+
+        if (isNaN(animalId) || isNaN(photoId)) {
+            return res.status(400).json({
+                success: false,
+                message: 'ID d\'animal ou de photo invalide'
+            })
+        }
+
+        const photos = await AnimalPhotoService.setPrimaryPhoto(animalId, photoId)
+
+        res.json({
+            success: true,
+            message: 'Photo principale mise à jour',
+            data: photos
+        })
+
+    } catch (error) {
+        console.error('Erreur lors du choix de la photo principale:', error)
+
+        const status = photoErrorStatus(error)
+        if (status) {
+            return res.status(status).json({
+                success: false,
+                message: (error as Error).message
+            })
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors du choix de la photo principale',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE ADMIN - Supprimer une photo
+Responsabilité : Supprimer la photo et ses fichiers (image et miniature)
+*/
+router.delete('/animals/:id/photos/:photoId', authOrApiKeyMiddleware, requirePermission('animals:write'), async (req: Request, res: Response) => {
+    try {
+        const animalId = parseInt(req.params.id)
+        const photoId = parseInt(req.params.photoId)
+
+        if (isNaN(animalId) || isNaN(photoId)) {
+            return res.status(400).json({
+                success: false,
+                message: 'ID d\'animal ou de photo invalide'
+            })
+        }
+
+        const result = await AnimalPhotoService.deletePhoto(animalId, photoId)
+
+        res.json({
+            success: true,
+            message: result.message
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de la suppression de la photo:', error)
+
+        const status = photoErrorStatus(error)
+        if (status) {
+            return res.status(status).json({
+                success: false,
+                message: (error as Error).message
+            })
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la suppression de la photo',
             error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
         })
     }
@@ -733,7 +1289,7 @@ router.patch('/animals/:id/available', authMiddleware, requireAdmin, async (req:
 Responsabilité : Fournir un dashboard avec les statistiques globales
 Utilisée pour les tableaux de bord administrateur
 */
-router.get('/admin/stats', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.get('/admin/stats', authOrApiKeyMiddleware, requirePermission('animals:read'), async (req: Request, res: Response) => {
     try {
         const stats = await AnimalService.getAnimalStats()
 
@@ -756,21 +1312,31 @@ router.get('/admin/stats', authMiddleware, requireAdmin, async (req: Request, re
 
 /* 🔒 ROUTE PROTÉGÉE ADMIN - Tous les animaux (y compris adoptés)
 Responsabilité : Lister tous les animaux pour l'administration
-Avec les informations d'adoption si applicable
+Avec les informations d'adoption si applicable (coordonnées des adoptants : réservé au personnel connecté, pas aux clés d'API)
+Paginée : page/limit (ou cursor), sort (createdAt, name, age, city, type, breed), order
 */
-router.get('/admin/animals', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.get('/admin/animals', authMiddleware, requirePermission('animals:read'), async (req: Request, res: Response) => {
     try {
-        const animals = await AnimalService.getAllAnimals()
+        const pagination = parsePagination(req.query, ANIMAL_PAGINATION)
+        const page = await AnimalService.getAllAnimals(pagination)
 
         res.json({
             success: true,
             message: 'Liste complète des animaux récupérée avec succès',
-            data: animals
+            data: page.items,
+            pagination: page.pagination
         })
 
     } catch (error) {
         console.error('Erreur lors de la récupération de tous les animaux:', error)
 
+        if (isPaginationError(error)) {
+            return res.status(400).json({
+                success: false,
+                message: (error as Error).message
+            })
+        }
+
         res.status(500).json({
             success: false,
             message: 'Erreur lors de la récupération des animaux',
@@ -779,11 +1345,54 @@ router.get('/admin/animals', authMiddleware, requireAdmin, async (req: Request,
     }
 })
 
+/* 🔒 ROUTE PROTÉGÉE ADMIN - Recherche par numéro de puce ou de tatouage
+Responsabilité : Vérifier immédiatement si un animal trouvé est déjà connu du refuge
+Espaces, tirets et points du numéro sont ignorés ; retourne statut, photos, arrivée et adoptant éventuel
+Réservé au personnel connecté (pas de clé d'API) : la réponse contient les coordonnées de l'adoptant
+*/
+router.get('/admin/animals/by-chip/:chip', authMiddleware, requirePermission('animals:read'), async (req: Request, res: Response) => {
+    try {
+        const chip = AnimalIntakeService.normalizeIdentifier(req.params.chip)
+
+        if (!chip || chip.length > 20) {
+            return res.status(400).json({
+                success: false,
+                message: 'Numéro de puce ou de tatouage invalide'
+            })
+        }
+
+        const animal = await AnimalIntakeService.findByIdentifier(chip)
+
+        if (!animal) {
+            return res.status(404).json({
+                success: false,
+                message: 'Aucun animal enregistré avec ce numéro de puce ou de tatouage'
+            })
+        }
+
+        res.json({
+            success: true,
+            message: 'Animal trouvé',
+            data: animal
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de la recherche par numéro d\'identification:', error)
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la recherche par numéro d\'identification',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
 /* 🔒 ROUTE PROTÉGÉE ADMIN - Récupérer toutes les demandes d'adoption
 Responsabilité : Permettre aux administrateurs de voir toutes les demandes d'adoption
-Avec filtrage par statut et informations complètes utilisateur + animal*/
+Avec filtrage par statut et informations complètes utilisateur + animal
+Paginée : page/limit (ou cursor), sort (createdAt, status, lastname), order*/
 
-router.get('/admin/adoptions', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.get('/admin/adoptions', authMiddleware, requirePermission('adoptions:read'), async (req: Request, res: Response) => {
     try {
         const { status } = req.query
 
@@ -794,6 +1403,8 @@ router.get('/admin/adoptions', authMiddleware, requireAdmin, async (req: Request
             whereConditions.status = status
         }
 
+        const pagination = parsePagination(req.query, ADOPTION_PAGINATION)
+
         const adoptions = await prisma.adopt.findMany({
             where: whereConditions,
             include: {
@@ -820,20 +1431,29 @@ router.get('/admin/adoptions', authMiddleware, requireAdmin, async (req: Request
                     }
                 }
             },
-            orderBy: {
-                createdAt: 'desc'
-            }
+            ...toPrismaArgs(pagination)
         })
+        const total = await prisma.adopt.count({ where: whereConditions })
+
+        const page = buildPage(adoptions, total, pagination)
 
         res.json({
             success: true,
             message: 'Demandes d\'adoption récupérées avec succès',
-            data: adoptions
+            data: page.items,
+            pagination: page.pagination
         })
 
     } catch (error) {
         console.error('Erreur lors de la récupération des adoptions admin:', error)
 
+        if (isPaginationError(error)) {
+            return res.status(400).json({
+                success: false,
+                message: (error as Error).message
+            })
+        }
+
         res.status(500).json({
             success: false,
             message: 'Erreur lors de la récupération des demandes d\'adoption',
@@ -846,7 +1466,7 @@ router.get('/admin/adoptions', authMiddleware, requireAdmin, async (req: Request
 Responsabilité : Permettre aux administrateurs de modérer les demandes d'adoption
 Change le statut de la demande ET de l'animal si approuvé*/
 
-router.put('/admin/adoptions/:id', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.put('/admin/adoptions/:id', authMiddleware, requirePermission('adoptions:review'), async (req: Request, res: Response) => {
     try {
         const adoptionId = parseInt(req.params.id)
         const { status, adminComment } = req.body
@@ -912,11 +1532,13 @@ router.put('/admin/adoptions/:id', authMiddleware, requireAdmin, async (req: Req
 
             // Si approuvé, marquer l'animal comme adopté et rejeter les autres demandes pour cet animal
             if (status === 'approved') {
-                // Marquer l'animal comme adopté
-                await tx.animal.update({
-                    where: { id: existingAdoption.animalid },
-                    data: { status: 'adopted' }
-                })
+                // Marquer l'animal comme adopté (transition vérifiée et historisée)
+                if (existingAdoption.animal.status !== 'adopted') {
+                    await AnimalStatusService.changeStatus(existingAdoption.animalid, 'adopted', {
+                        actorId: req.user!.userId,
+                        reason: `Demande d'adoption #${adoptionId} approuvée`
+                    }, tx)
+                }
 
                 // Rejeter automatiquement toutes les autres demandes pending pour cet animal
                 await tx.adopt.updateMany({
@@ -932,8 +1554,8 @@ router.put('/admin/adoptions/:id', authMiddleware, requireAdmin, async (req: Req
                 })
             }
 
-            // Si rejeté et que l'animal était en pending, le remettre disponible
-            if (status === 'rejected' && existingAdoption.animal.status === 'pending') {
+            // Si rejeté et que l'animal était réservé, le remettre disponible
+            if (status === 'rejected' && ['reserved', 'pending'].includes(existingAdoption.animal.status)) {
                 // Vérifier s'il n'y a plus d'autres demandes pending pour cet animal
                 const otherPendingAdoptions = await tx.adopt.count({
                     where: {
@@ -945,10 +1567,10 @@ router.put('/admin/adoptions/:id', authMiddleware, requireAdmin, async (req: Req
 
                 // Si plus de demandes pending, remettre l'animal disponible
                 if (otherPendingAdoptions === 0) {
-                    await tx.animal.update({
-                        where: { id: existingAdoption.animalid },
-                        data: { status: 'available' }
-                    })
+                    await AnimalStatusService.changeStatus(existingAdoption.animalid, 'available', {
+                        actorId: req.user!.userId,
+                        reason: `Demande d'adoption #${adoptionId} rejetée`
+                    }, tx)
                 }
             }
 
@@ -964,6 +1586,13 @@ router.put('/admin/adoptions/:id', authMiddleware, requireAdmin, async (req: Req
     } catch (error) {
         console.error('Erreur lors de la mise à jour de l\'adoption:', error)
 
+        if (isStatusConflict(error)) {
+            return res.status(409).json({
+                success: false,
+                message: (error as Error).message
+            })
+        }
+
         res.status(500).json({
             success: false,
             message: 'Erreur lors de la mise à jour de la demande d\'adoption',
@@ -976,7 +1605,7 @@ router.put('/admin/adoptions/:id', authMiddleware, requireAdmin, async (req: Req
 Responsabilité : Fournir les statistiques pour le dashboard admin
 Compte par statut et données récentes*/
 
-router.get('/admin/adoptions/stats', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.get('/admin/adoptions/stats', authMiddleware, requirePermission('adoptions:read'), async (req: Request, res: Response) => {
     try {
         // Compter les adoptions par statut
         const totalAdoptions = await prisma.adopt.count()
@@ -1058,7 +1687,7 @@ router.get('/admin/adoptions/stats', authMiddleware, requireAdmin, async (req: R
 Responsabilité : Permettre aux administrateurs de supprimer complètement une demande
 Utilisé pour nettoyer les anciennes demandes ou en cas d'erreur*/
 
-router.delete('/admin/adoptions/:id', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.delete('/admin/adoptions/:id', authMiddleware, requirePermission('adoptions:review'), async (req: Request, res: Response) => {
     try {
         const adoptionId = parseInt(req.params.id)
 
@@ -20,6 +20,11 @@ import userDashboardRoutes from './userdashboard/userdashboardroute'
 import adminDashboardRoutes from './admindashboard/admindashboardroute'
 import adminRoutes from './admin/adminroute'
 import adminuserRoutes from './adminutilisateur/adminuserroute'
+import medicalRoutes from './medical/medicalroute'
+import { RoleService } from './services/roleservice'
+import { StorageService } from './services/storageservice'
+import { AnimalSearchService } from './services/animalsearchservice'
+import { AnimalStatusService } from './services/animalstatusservice'
 
 app.use('/api/auth', authRoutes) 
 app.use('/api/adopt', adoptRoutes)
@@ -30,11 +35,32 @@ app.use('/api/userdashboard', userDashboardRoutes)
 app.use('/api/admindashboard', adminDashboardRoutes)
 app.use('/api/admin', adminRoutes)
 app.use('/api/useradmin', adminuserRoutes)
+app.use('/api/medical', medicalRoutes)
+
+// Photos des animaux enregistrées sur le disque local (backend de stockage par défaut)
+if (StorageService.isLocalDisk()) {
+  app.use(StorageService.LOCAL_PUBLIC_URL, express.static(StorageService.LOCAL_UPLOAD_DIR, { maxAge: '7d' }))
+}
 
 const port = process.env.PORT || 3005; 
 
 
 
+// Crée les rôles par défaut (admin, user, rôles du refuge) au premier démarrage et applique les migrations de permissions
+RoleService.ensureDefaultRoles().catch(error => {
+  console.error('Erreur lors de l\'initialisation des rôles:', error)
+})
+
+// Configuration de la recherche plein texte des animaux (français, sans accents)
+AnimalSearchService.ensureSearchConfiguration().catch(error => {
+  console.error('Erreur lors de l\'initialisation de la recherche plein texte:', error)
+})
+
+// Convertit les animaux encore au statut "pending" vers le cycle de vie actuel ("reserved")
+AnimalStatusService.migrateLegacyStatuses().catch(error => {
+  console.error('Erreur lors de la conversion des anciens statuts d\'animaux:', error)
+})
+
 app.listen(port, () => {
   console.log(`Adalicious Backend listening on port ${port}`)
   console.log(`Server running at http://localhost:${port}`)
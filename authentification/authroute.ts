@@ -1,6 +1,10 @@
 import { Router, Request, Response } from 'express';
 import { AuthService } from '../services/authservice'
-import { authMiddleware, logAuthAttempt } from '../middleware/authmiddleware';
+import { TwoFactorService } from '../services/twofactorservice'
+import { RoleService } from '../services/roleservice'
+import { AccountService } from '../services/accountservice'
+import { OidcService } from '../services/oidcservice'
+import { authMiddleware, getClientInfo } from '../middleware/authmiddleware';
 
 const router = Router()
 
@@ -18,6 +22,60 @@ interface LoginRequest {
     password: string
 }
 
+interface TwoFactorLoginRequest {
+    challengeToken: string
+    code: string
+}
+
+interface TwoFactorCodeRequest {
+    code: string
+}
+
+interface DisableTwoFactorRequest {
+    password: string
+    code: string
+}
+
+interface RefreshRequest {
+    refreshToken: string
+}
+
+interface ForgotPasswordRequest {
+    email: string
+}
+
+interface ResetPasswordRequest {
+    token: string
+    password: string
+}
+
+interface ChangePasswordRequest {
+    currentPassword: string
+    newPassword: string
+}
+
+interface DeleteAccountRequest {
+    password: string
+    code?: string
+}
+
+interface MagicLinkRequest {
+    email: string
+}
+
+interface MagicLinkConsumeRequest {
+    token: string
+}
+
+interface OidcCallbackRequest {
+    code: string
+    state: string
+}
+
+interface VerifyEmailRequest {
+    token: string
+}
+
 interface UpdateProfileRequest {
     firstname?: string
     lastname?: string
@@ -29,7 +87,7 @@ interface UpdateProfileRequest {
 Responsabilité : Validation des données d'entrée + gestion des réponses HTTP
 La logique métier est déléguée à AuthService.register()
 */
-router.post('/register', logAuthAttempt, async (req: Request, res: Response) => {
+router.post('/register', async (req: Request, res: Response) => {
     try {
         const { firstname, lastname, email, password, phone } = req.body as RegisterRequest
 
@@ -49,7 +107,7 @@ router.post('/register', logAuthAttempt, async (req: Request, res: Response) =>
         }
 
         // Validation du mot de passe (utilise la méthode centralisée du service)
-        const passwordValidation = AuthService.isValidPassword(password)
+        const passwordValidation = AuthService.isValidPassword(password, { firstname, lastname, email })
         if (!passwordValidation.valid) {
             return res.status(400).json({
                 success: false,
@@ -64,7 +122,7 @@ router.post('/register', logAuthAttempt, async (req: Request, res: Response) =>
             email: email.trim().toLowerCase(),
             password,
             phone: phone?.trim()
-        })
+        }, getClientInfo(req))
 
         // Formatage de la réponse HTTP de succès
         res.status(201).json({
@@ -96,7 +154,7 @@ router.post('/register', logAuthAttempt, async (req: Request, res: Response) =>
 Responsabilité : validation des données d'entrée + gestion des réponses HTTP
 La logique métier est déléguée à AuthService.login()
 */
-router.post('/login', logAuthAttempt, async (req: Request, res: Response) => {
+router.post('/login', async (req: Request, res: Response) => {
     try {
         const { email, password } = req.body as LoginRequest
 
@@ -107,11 +165,11 @@ router.post('/login', logAuthAttempt, async (req: Request, res: Response) => {
             })
         }
 
-        const result = await AuthService.login(email.trim().toLowerCase(), password)
+        const result = await AuthService.login(email.trim().toLowerCase(), password, getClientInfo(req))
 
         res.json({
             success: true,
-            message: 'Connexion réussie',
+            message: 'twoFactorRequired' in result ? 'Code de double authentification requis' : 'Connexion réussie',
             data: result
         })
         
@@ -125,6 +183,22 @@ router.post('/login', logAuthAttempt, async (req: Request, res: Response) => {
             })
         }
 
+        // Compte suspendu ou désactivé par un administrateur
+        if (error instanceof Error && (error.message.startsWith('Compte suspendu') || error.message.startsWith('Compte désactivé'))) {
+            return res.status(403).json({
+                success: false,
+                message: error.message
+            })
+        }
+
+        // Compte/IP verrouillé ou délai progressif non écoulé
+        if (error instanceof Error && (error.message.includes('verrouillé') || error.message.includes('Trop de tentatives'))) {
+            return res.status(429).json({
+                success: false,
+                message: error.message
+            })
+        }
+
         res.status(500).json({
             success: false,
             message: 'Erreur lors de la connexion',
@@ -133,27 +207,48 @@ router.post('/login', logAuthAttempt, async (req: Request, res: Response) => {
     }
 })
 
-/* 🔒 ROUTE PROTÉGÉE - Voir son profil
-Responsabilité : extraction de l'userId du token + gestion des réponses HTTP
-Déléguée à AuthService.getUserProfile()
+/* 🟢 ROUTE PUBLIQUE - Connexion, deuxième étape (2FA)
+Responsabilité : échanger le challengeToken reçu à /login + un code TOTP ou de secours contre les tokens
+La vérification est déléguée à AuthService.completeTwoFactorLogin()
 */
-router.get('/profile', authMiddleware, async (req: Request, res: Response) => {
+router.post('/login/2fa', async (req: Request, res: Response) => {
     try {
-        const userId = req.user!.userId
+        const { challengeToken, code } = req.body as TwoFactorLoginRequest
 
-        const user = await AuthService.getUserProfile(userId)
+        if (!challengeToken || !code || typeof code !== 'string') {
+            return res.status(400).json({
+                success: false,
+                message: 'Token de connexion et code requis'
+            })
+        }
+
+        const result = await AuthService.completeTwoFactorLogin(challengeToken, code, getClientInfo(req))
 
         res.json({
             success: true,
-            data: user
+            message: 'Connexion réussie',
+            data: result
         })
-        
+
     } catch (error) {
-        console.error('Erreur lors de la récupération du profil:', error)
-        
-        // Gestion des erreurs métier retournées par le service 
-        if (error instanceof Error && error.message === 'Utilisateur non trouvé') {
-            return res.status(404).json({
+        console.error('Erreur lors de la vérification 2FA:', error)
+
+        if (error instanceof Error && (error.message.includes('incorrect') || error.message.includes('invalide ou expirée'))) {
+            return res.status(401).json({
+                success: false,
+                message: error.message
+            })
+        }
+
+        if (error instanceof Error && (error.message.startsWith('Compte suspendu') || error.message.startsWith('Compte désactivé'))) {
+            return res.status(403).json({
+                success: false,
+                message: error.message
+            })
+        }
+
+        if (error instanceof Error && (error.message.includes('verrouillé') || error.message.includes('Trop de tentatives'))) {
+            return res.status(429).json({
                 success: false,
                 message: error.message
             })
@@ -161,80 +256,971 @@ router.get('/profile', authMiddleware, async (req: Request, res: Response) => {
 
         res.status(500).json({
             success: false,
-            message: 'Erreur lors de la récupération du profil'
+            message: 'Erreur lors de la connexion',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
         })
     }
 })
 
-/* 🔒 ROUTE PROTÉGÉE - Modifier son profil
-Responsabilité : validation des données d'entrée + gestion des réponses HTTP
-Déléguée à AuthService.updateUserProfile()
+/* 🟢 ROUTE PUBLIQUE - Demander un lien de connexion sans mot de passe
+Responsabilité : envoyer par email un lien à usage unique et de courte durée
+Réponse identique que l'email existe ou non (pas d'énumération des comptes)
 */
-router.put('/profile', authMiddleware, async (req: Request, res: Response) => {
+router.post('/magic-link', async (req: Request, res: Response) => {
     try {
-        const userId = req.user!.userId
-        const { firstname, lastname, email, phone } = req.body as UpdateProfileRequest
+        const { email } = req.body as MagicLinkRequest
 
-        if (!firstname && !lastname && !email && !phone) {
+        if (!email || !AuthService.isValidEmail(email)) {
             return res.status(400).json({
                 success: false,
-                message: "Vous devez fournir au moins un champ à mettre à jour"
+                message: 'Adresse email valide requise'
             })
         }
 
-        if (email && !AuthService.isValidEmail(email)) {
+        await AuthService.requestMagicLink(email.trim().toLowerCase(), getClientInfo(req))
+
+        res.json({
+            success: true,
+            message: 'Si un compte existe avec cet email, un lien de connexion a été envoyé'
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de la demande de lien de connexion:', error)
+
+        if (error instanceof Error && (error.message.includes('verrouillé') || error.message.includes('Trop de tentatives'))) {
+            return res.status(429).json({
+                success: false,
+                message: error.message
+            })
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la demande de lien de connexion',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
+/* 🟢 ROUTE PUBLIQUE - Se connecter avec un lien magique
+Responsabilité : échanger le token reçu par email contre la même réponse que /login
+La consommation du lien est déléguée à AuthService.loginWithMagicLink()
+*/
+router.post('/magic-link/consume', async (req: Request, res: Response) => {
+    try {
+        const { token } = req.body as MagicLinkConsumeRequest
+
+        if (!token) {
             return res.status(400).json({
                 success: false,
-                message: "Format d'email invalide"
+                message: 'Token de connexion requis'
             })
         }
 
-        if ((firstname !== undefined && firstname.trim() === "") || 
-            (lastname !== undefined && lastname.trim() === "") ||
-            (email !== undefined && email.trim() === "")) {
-                return res.status(400).json({
+        const result = await AuthService.loginWithMagicLink(token, getClientInfo(req))
+
+        res.json({
+            success: true,
+            message: 'twoFactorRequired' in result ? 'Code de double authentification requis' : 'Connexion réussie',
+            data: result
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de la connexion par lien magique:', error)
+
+        if (error instanceof Error) {
+            if (error.message.includes('invalide ou expiré')) {
+                return res.status(401).json({
                     success: false,
-                    message: "Les champs texte ne peuvent pas être vides"
+                    message: error.message
+                })
+            }
+            if (error.message.startsWith('Compte suspendu') || error.message.startsWith('Compte désactivé')) {
+                return res.status(403).json({
+                    success: false,
+                    message: error.message
+                })
+            }
+            if (error.message.includes('verrouillé') || error.message.includes('Trop de tentatives')) {
+                return res.status(429).json({
+                    success: false,
+                    message: error.message
                 })
+            }
         }
 
-       // Délégation de toute la logique métier au service
-       const updatedUser = await AuthService.updateUserProfile(userId, {
-        firstname,
-        lastname,
-        email,
-        phone
-       })
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la connexion',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
+/* 🟢 ROUTE PUBLIQUE - Fournisseurs d'identité disponibles (OpenID Connect)
+Responsabilité : lister les boutons "Se connecter avec ..." à afficher
+*/
+router.get('/oidc/providers', (req: Request, res: Response) => {
+    res.json({
+        success: true,
+        data: OidcService.getProviders().map(provider => ({ id: provider.id, name: provider.name }))
+    })
+})
+
+/* 🟢 ROUTE PUBLIQUE - Connexion OIDC, étape 1
+Responsabilité : retourner l'URL d'autorisation du fournisseur vers laquelle rediriger le navigateur
+*/
+router.get('/oidc/:provider/authorize', async (req: Request, res: Response) => {
+    try {
+        const authorizationUrl = await OidcService.createAuthorizationUrl(req.params.provider)
 
         res.json({
             success: true,
-            message: "Profil mis à jour avec succès",
-            data: updatedUser
+            data: { authorizationUrl }
         })
-        
+
     } catch (error) {
-        console.error('Erreur lors de la mise à jour du profil:', error)
+        console.error('Erreur lors de la préparation de la connexion OIDC:', error)
 
-        if (error instanceof Error) {
-           if (error.message === 'Utilisateur non trouvé') {
+        if (error instanceof Error && error.message.includes('inconnu')) {
             return res.status(404).json({
                 success: false,
-                message: error.message 
+                message: error.message
             })
-           }
-           if (error.message.includes("existe déjà")) {
-            return res.status(409).json({
+        }
+
+        res.status(502).json({
+            success: false,
+            message: 'Le fournisseur d\'identité est indisponible',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
+/* 🟢 ROUTE PUBLIQUE - Connexion OIDC, étape 2
+Responsabilité : le frontend transmet le code et le state reçus du fournisseur
+Retourne la même réponse que /login (tokens, ou challenge 2FA si activée)
+*/
+router.post('/oidc/:provider/callback', async (req: Request, res: Response) => {
+    try {
+        const { code, state } = req.body as OidcCallbackRequest
+
+        if (!code || !state) {
+            return res.status(400).json({
                 success: false,
-                message: error.message 
+                message: 'Code et state requis'
             })
-           }
+        }
+
+        const result = await OidcService.handleCallback(req.params.provider, code, state, getClientInfo(req))
+
+        res.json({
+            success: true,
+            message: 'twoFactorRequired' in result ? 'Code de double authentification requis' : 'Connexion réussie',
+            data: result
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de la connexion OIDC:', error)
+
+        if (error instanceof Error) {
+            if (error.message.includes('inconnu')) {
+                return res.status(404).json({
+                    success: false,
+                    message: error.message
+                })
+            }
+            if (error.message.startsWith('Compte suspendu') || error.message.startsWith('Compte désactivé')) {
+                return res.status(403).json({
+                    success: false,
+                    message: error.message
+                })
+            }
+            if (error.message.includes('invalide') || error.message.includes('email vérifié') || error.message.includes('Aucun compte')) {
+                return res.status(401).json({
+                    success: false,
+                    message: error.message
+                })
+            }
+            if (error.message.includes('fournisseur d\'identité')) {
+                return res.status(502).json({
+                    success: false,
+                    message: error.message
+                })
+            }
         }
 
         res.status(500).json({
             success: false,
-            message: 'Erreur lors de la mise à jour du profil'
+            message: 'Erreur lors de la connexion',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
+/* 🟢 ROUTE PUBLIQUE - Rafraîchir les tokens
+Responsabilité : échanger un refresh token valide contre une nouvelle paire access/refresh
+La rotation et la détection de réutilisation sont déléguées à AuthService.refreshTokens()
+*/
+router.post('/refresh', async (req: Request, res: Response) => {
+    try {
+        const { refreshToken } = req.body as RefreshRequest
+
+        if (!refreshToken || typeof refreshToken !== 'string') {
+            return res.status(400).json({
+                success: false,
+                message: 'Refresh token requis'
+            })
+        }
+
+        const tokens = await AuthService.refreshTokens(refreshToken, getClientInfo(req))
+
+        res.json({
+            success: true,
+            message: 'Tokens renouvelés avec succès',
+            data: tokens
+        })
+
+    } catch (error) {
+        console.error('Erreur lors du renouvellement des tokens:', error)
+
+        if (error instanceof Error && error.message.includes('Refresh token')) {
+            return res.status(401).json({
+                success: false,
+                message: error.message
+            })
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors du renouvellement des tokens',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE - Déconnexion
+Responsabilité : révoquer la session courante côté serveur
+L'access token et tous les refresh tokens de la session deviennent inutilisables
+*/
+router.post('/logout', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        await AuthService.logout(req.user!.userId, req.user!.sessionId, getClientInfo(req))
+
+        res.json({
+            success: true,
+            message: 'Déconnexion réussie'
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de la déconnexion:', error)
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la déconnexion',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE - Lister ses sessions actives
+Responsabilité : afficher les appareils connectés (navigateur, IP, création, dernière activité)
+*/
+router.get('/sessions', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const sessions = await AuthService.listSessions(req.user!.userId, req.user!.sessionId)
+
+        res.json({
+            success: true,
+            data: sessions
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de la récupération des sessions:', error)
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la récupération des sessions'
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE - Se déconnecter partout
+Responsabilité : révoquer toutes les sessions de l'utilisateur, y compris la session courante
+*/
+router.delete('/sessions', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const count = await AuthService.logoutEverywhere(req.user!.userId, getClientInfo(req))
+
+        res.json({
+            success: true,
+            message: `Déconnexion effectuée sur ${count} appareil(s)`,
+            data: { revokedSessions: count }
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de la déconnexion de toutes les sessions:', error)
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la déconnexion de toutes les sessions'
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE - Déconnecter un appareil
+Responsabilité : révoquer une session précise appartenant à l'utilisateur
+*/
+router.delete('/sessions/:id', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        await AuthService.revokeSession(req.user!.userId, req.params.id, getClientInfo(req))
+
+        res.json({
+            success: true,
+            message: req.params.id === req.user!.sessionId ? 'Déconnexion réussie' : 'Session révoquée avec succès'
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de la révocation de la session:', error)
+
+        if (error instanceof Error && error.message === 'Session non trouvée') {
+            return res.status(404).json({
+                success: false,
+                message: error.message
+            })
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la révocation de la session'
+        })
+    }
+})
+
+/* 🟢 ROUTE PUBLIQUE - Mot de passe oublié
+Responsabilité : déclencher l'envoi d'un lien de réinitialisation par email
+Réponse identique que l'email existe ou non (pas d'énumération des comptes)
+Limitée comme les liens de connexion : 429 si l'adresse ou l'IP est bloquée
+*/
+router.post('/forgot-password', async (req: Request, res: Response) => {
+    try {
+        const { email } = req.body as ForgotPasswordRequest
+
+        if (!email || !AuthService.isValidEmail(email)) {
+            return res.status(400).json({
+                success: false,
+                message: 'Adresse email valide requise'
+            })
+        }
+
+        await AuthService.requestPasswordReset(email.trim().toLowerCase(), getClientInfo(req))
+
+        res.json({
+            success: true,
+            message: 'Si un compte existe avec cet email, un lien de réinitialisation a été envoyé'
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de la demande de réinitialisation:', error)
+
+        if (error instanceof Error && (error.message.includes('verrouillé') || error.message.includes('Trop de tentatives'))) {
+            return res.status(429).json({
+                success: false,
+                message: error.message
+            })
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la demande de réinitialisation',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
+/* 🟢 ROUTE PUBLIQUE - Réinitialiser le mot de passe
+Responsabilité : valider le nouveau mot de passe + gestion des réponses HTTP
+La consommation du token et la révocation des sessions sont déléguées à AuthService.resetPassword()
+*/
+router.post('/reset-password', async (req: Request, res: Response) => {
+    try {
+        const { token, password } = req.body as ResetPasswordRequest
+
+        if (!token || !password) {
+            return res.status(400).json({
+                success: false,
+                message: 'Token et nouveau mot de passe requis'
+            })
+        }
+
+        const passwordValidation = AuthService.isValidPassword(password)
+        if (!passwordValidation.valid) {
+            return res.status(400).json({
+                success: false,
+                message: passwordValidation.message
+            })
+        }
+
+        await AuthService.resetPassword(token, password, getClientInfo(req))
+
+        res.json({
+            success: true,
+            message: 'Mot de passe réinitialisé avec succès, veuillez vous reconnecter'
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de la réinitialisation du mot de passe:', error)
+
+        // Lien invalide ou mot de passe refusé par la politique (informations personnelles)
+        if (error instanceof Error && (error.message.includes('invalide ou expiré') || error.message.startsWith('Le mot de passe'))) {
+            return res.status(400).json({
+                success: false,
+                message: error.message
+            })
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la réinitialisation du mot de passe',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
+/* 🟢 ROUTE PUBLIQUE - Confirmer son adresse email
+Responsabilité : valider le token reçu par email + gestion des réponses HTTP
+Déléguée à AuthService.verifyEmail()
+*/
+router.post('/verify-email', async (req: Request, res: Response) => {
+    try {
+        const { token } = req.body as VerifyEmailRequest
+
+        if (!token) {
+            return res.status(400).json({
+                success: false,
+                message: 'Token de vérification requis'
+            })
+        }
+
+        await AuthService.verifyEmail(token)
+
+        res.json({
+            success: true,
+            message: 'Adresse email confirmée avec succès'
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de la vérification de l\'email:', error)
+
+        if (error instanceof Error && error.message.includes('invalide ou expiré')) {
+            return res.status(400).json({
+                success: false,
+                message: error.message
+            })
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la vérification de l\'email',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE - Renvoyer l'email de vérification
+Responsabilité : gestion des réponses HTTP (dont la limitation des renvois)
+Déléguée à AuthService.resendVerificationEmail()
+*/
+router.post('/verify-email/resend', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        await AuthService.resendVerificationEmail(req.user!.userId)
+
+        res.json({
+            success: true,
+            message: 'Email de vérification renvoyé'
+        })
+
+    } catch (error) {
+        console.error('Erreur lors du renvoi de l\'email de vérification:', error)
+
+        if (error instanceof Error) {
+            if (error.message === 'Utilisateur non trouvé') {
+                return res.status(404).json({
+                    success: false,
+                    message: error.message
+                })
+            }
+            if (error.message.includes('déjà vérifiée')) {
+                return res.status(400).json({
+                    success: false,
+                    message: error.message
+                })
+            }
+            if (error.message.includes('Trop de demandes')) {
+                return res.status(429).json({
+                    success: false,
+                    message: error.message
+                })
+            }
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors du renvoi de l\'email de vérification',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE - Voir son profil
+Responsabilité : extraction de l'userId du token + gestion des réponses HTTP
+Déléguée à AuthService.getUserProfile()
+*/
+router.get('/profile', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const userId = req.user!.userId
+
+        const user = await AuthService.getUserProfile(userId)
+
+        res.json({
+            success: true,
+            data: user
+        })
+        
+    } catch (error) {
+        console.error('Erreur lors de la récupération du profil:', error)
+        
+        // Gestion des erreurs métier retournées par le service 
+        if (error instanceof Error && error.message === 'Utilisateur non trouvé') {
+            return res.status(404).json({
+                success: false,
+                message: error.message
+            })
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la récupération du profil'
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE - Modifier son profil
+Responsabilité : validation des données d'entrée + gestion des réponses HTTP
+Déléguée à AuthService.updateUserProfile()
+*/
+router.put('/profile', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const userId = req.user!.userId
+        const { firstname, lastname, email, phone } = req.body as UpdateProfileRequest
+
+        if (!firstname && !lastname && !email && !phone) {
+            return res.status(400).json({
+                success: false,
+                message: "Vous devez fournir au moins un champ à mettre à jour"
+            })
+        }
+
+        if (email && !AuthService.isValidEmail(email)) {
+            return res.status(400).json({
+                success: false,
+                message: "Format d'email invalide"
+            })
+        }
+
+        if ((firstname !== undefined && firstname.trim() === "") || 
+            (lastname !== undefined && lastname.trim() === "") ||
+            (email !== undefined && email.trim() === "")) {
+                return res.status(400).json({
+                    success: false,
+                    message: "Les champs texte ne peuvent pas être vides"
+                })
+        }
+
+       // Délégation de toute la logique métier au service
+       const updatedUser = await AuthService.updateUserProfile(userId, {
+        firstname,
+        lastname,
+        email,
+        phone
+       }, getClientInfo(req))
+
+        res.json({
+            success: true,
+            message: "Profil mis à jour avec succès",
+            data: updatedUser
+        })
+        
+    } catch (error) {
+        console.error('Erreur lors de la mise à jour du profil:', error)
+
+        if (error instanceof Error) {
+           if (error.message === 'Utilisateur non trouvé') {
+            return res.status(404).json({
+                success: false,
+                message: error.message 
+            })
+           }
+           if (error.message.includes("existe déjà")) {
+            return res.status(409).json({
+                success: false,
+                message: error.message 
+            })
+           }
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la mise à jour du profil'
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE - Exporter ses données personnelles (RGPD)
+Responsabilité : fournir une archive JSON téléchargeable (profil, adoptions, dons, messages, sessions)
+Déléguée à AccountService.exportUserData()
+*/
+router.get('/me/export', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const userId = req.user!.userId
+
+        // L'export est une démarche de l'utilisateur lui-même : interdit au support en impersonation
+        if (req.user!.impersonatorId !== undefined) {
+            return res.status(403).json({
+                success: false,
+                message: 'Mode impersonation : l\'export des données personnelles est réservé à l\'utilisateur'
+            })
+        }
+
+        const archive = await AccountService.exportUserData(userId, getClientInfo(req))
+        const filename = `adaopte-donnees-${userId}-${new Date().toISOString().slice(0, 10)}.json`
+
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`)
+        res.json(archive)
+
+    } catch (error) {
+        console.error('Erreur lors de l\'export des données:', error)
+
+        if (error instanceof Error && error.message === 'Utilisateur non trouvé') {
+            return res.status(404).json({
+                success: false,
+                message: error.message
+            })
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de l\'export des données personnelles'
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE - Supprimer son compte (RGPD)
+Responsabilité : validation des données d'entrée + gestion des réponses HTTP
+Déléguée à AccountService.deleteOwnAccount() : le compte est anonymisé, les dons sont conservés
+*/
+router.delete('/me', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const { password, code } = req.body as DeleteAccountRequest
+
+        if (!password) {
+            return res.status(400).json({
+                success: false,
+                message: 'Mot de passe requis pour supprimer votre compte'
+            })
+        }
+
+        await AccountService.deleteOwnAccount(req.user!.userId, password, code, getClientInfo(req))
+
+        res.json({
+            success: true,
+            message: 'Votre compte a été supprimé et vos données personnelles anonymisées'
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de la suppression du compte:', error)
+
+        if (error instanceof Error) {
+            if (error.message.includes('incorrect')) {
+                return res.status(401).json({
+                    success: false,
+                    message: error.message
+                })
+            }
+            if (error.message.includes('dernier compte administrateur')) {
+                return res.status(409).json({
+                    success: false,
+                    message: error.message
+                })
+            }
+            if (error.message === 'Utilisateur non trouvé') {
+                return res.status(404).json({
+                    success: false,
+                    message: error.message
+                })
+            }
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la suppression du compte'
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE - Changer son mot de passe
+Responsabilité : validation des données d'entrée + gestion des réponses HTTP
+Déléguée à AuthService.changePassword() : exige le mot de passe actuel, déconnecte les autres sessions
+*/
+router.put('/password', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const { currentPassword, newPassword } = req.body as ChangePasswordRequest
+
+        if (!currentPassword || !newPassword) {
+            return res.status(400).json({
+                success: false,
+                message: 'Mot de passe actuel et nouveau mot de passe requis'
+            })
+        }
+
+        await AuthService.changePassword(req.user!.userId, currentPassword, newPassword, req.user!.sessionId, getClientInfo(req))
+
+        res.json({
+            success: true,
+            message: 'Mot de passe modifié avec succès, vos autres sessions ont été déconnectées'
+        })
+
+    } catch (error) {
+        console.error('Erreur lors du changement de mot de passe:', error)
+
+        if (error instanceof Error) {
+            if (error.message === 'Mot de passe actuel incorrect') {
+                return res.status(401).json({
+                    success: false,
+                    message: error.message
+                })
+            }
+            if (error.message.startsWith('Le mot de passe') || error.message.startsWith('Le nouveau mot de passe')) {
+                return res.status(400).json({
+                    success: false,
+                    message: error.message
+                })
+            }
+            if (error.message === 'Utilisateur non trouvé') {
+                return res.status(404).json({
+                    success: false,
+                    message: error.message
+                })
+            }
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors du changement de mot de passe'
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE - État de la double authentification
+Responsabilité : indiquer si la 2FA est activée, le nombre de codes de secours restants et si elle est obligatoire
+*/
+router.get('/profile/2fa', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const userId = req.user!.userId
+
+        const status = await TwoFactorService.getStatus(userId)
+        const required = TwoFactorService.isRequiredForStaff() && await RoleService.isStaffRole(req.user!.role)
+
+        res.json({
+            success: true,
+            data: { ...status, required }
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de la récupération de l\'état 2FA:', error)
+
+        if (error instanceof Error && error.message === 'Utilisateur non trouvé') {
+            return res.status(404).json({
+                success: false,
+                message: error.message
+            })
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la récupération de l\'état de la double authentification'
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE - Démarrer l'activation de la 2FA
+Responsabilité : générer un secret et l'URI otpauth:// à scanner dans l'application d'authentification
+La 2FA n'est active qu'après confirmation via /profile/2fa/confirm
+*/
+router.post('/profile/2fa/setup', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const setup = await TwoFactorService.startEnrollment(req.user!.userId)
+
+        res.json({
+            success: true,
+            message: 'Scannez le QR code puis confirmez avec un code de votre application',
+            data: setup
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de la configuration 2FA:', error)
+
+        if (error instanceof Error && error.message.includes('déjà activée')) {
+            return res.status(409).json({
+                success: false,
+                message: error.message
+            })
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la configuration de la double authentification'
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE - Confirmer l'activation de la 2FA
+Responsabilité : vérifier un premier code TOTP puis retourner les codes de secours (affichés une seule fois)
+*/
+router.post('/profile/2fa/confirm', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const { code } = req.body as TwoFactorCodeRequest
+
+        if (!code || typeof code !== 'string') {
+            return res.status(400).json({
+                success: false,
+                message: 'Code de vérification requis'
+            })
+        }
+
+        const recoveryCodes = await AuthService.enableTwoFactor(req.user!.userId, code.trim(), getClientInfo(req))
+
+        res.json({
+            success: true,
+            message: 'Double authentification activée. Conservez vos codes de secours en lieu sûr',
+            data: { recoveryCodes }
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de l\'activation 2FA:', error)
+
+        if (error instanceof Error) {
+            if (error.message.includes('incorrect') || error.message.includes('Aucune configuration')) {
+                return res.status(400).json({
+                    success: false,
+                    message: error.message
+                })
+            }
+            if (error.message.includes('déjà activée')) {
+                return res.status(409).json({
+                    success: false,
+                    message: error.message
+                })
+            }
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de l\'activation de la double authentification'
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE - Régénérer les codes de secours
+Responsabilité : invalider les anciens codes et en générer de nouveaux (exige un code valide)
+*/
+router.post('/profile/2fa/recovery-codes', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const { code } = req.body as TwoFactorCodeRequest
+
+        if (!code || typeof code !== 'string') {
+            return res.status(400).json({
+                success: false,
+                message: 'Code de double authentification requis'
+            })
+        }
+
+        const recoveryCodes = await AuthService.regenerateRecoveryCodes(req.user!.userId, code, getClientInfo(req))
+
+        res.json({
+            success: true,
+            message: 'Nouveaux codes de secours générés, les anciens ne sont plus valables',
+            data: { recoveryCodes }
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de la régénération des codes de secours:', error)
+
+        if (error instanceof Error && error.message.includes('incorrect')) {
+            return res.status(401).json({
+                success: false,
+                message: error.message
+            })
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la régénération des codes de secours'
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE - Désactiver la 2FA
+Responsabilité : validation des données d'entrée + gestion des réponses HTTP
+Exige le mot de passe et un code valide ; refusé si la 2FA est obligatoire pour le rôle
+*/
+router.delete('/profile/2fa', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const { password, code } = req.body as DisableTwoFactorRequest
+
+        if (!password || !code || typeof code !== 'string') {
+            return res.status(400).json({
+                success: false,
+                message: 'Mot de passe et code de double authentification requis'
+            })
+        }
+
+        await AuthService.disableTwoFactor(req.user!.userId, password, code, getClientInfo(req))
+
+        res.json({
+            success: true,
+            message: 'Double authentification désactivée'
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de la désactivation 2FA:', error)
+
+        if (error instanceof Error) {
+            if (error.message.includes('incorrect')) {
+                return res.status(401).json({
+                    success: false,
+                    message: error.message
+                })
+            }
+            if (error.message.includes('obligatoire')) {
+                return res.status(403).json({
+                    success: false,
+                    message: error.message
+                })
+            }
+            if (error.message.includes('n\'est pas activée')) {
+                return res.status(400).json({
+                    success: false,
+                    message: error.message
+                })
+            }
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la désactivation de la double authentification'
         })
     }
 })
 
-export default router
\ No newline at end of file
+export default router
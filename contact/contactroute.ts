@@ -1,10 +1,18 @@
 import { Router, Request, Response } from "express"
-import { authMiddleware, requireAdmin } from "../middleware/authmiddleware"
+import { authMiddleware, requirePermission } from "../middleware/authmiddleware"
 import { PrismaClient } from "@prisma/client"
+import { buildPage, isPaginationError, PaginationOptions, parsePagination, toPrismaArgs } from "../lib/pagination"
 
 const prisma = new PrismaClient()
 const router = Router()
 
+// Tris autorisés sur la liste admin des messages
+const CONTACT_PAGINATION: PaginationOptions<'createdAt' | 'status' | 'priority' | 'subject'> = {
+    sortFields: ['createdAt', 'status', 'priority', 'subject'],
+    defaultSort: 'createdAt',
+    defaultOrder: 'desc'
+}
+
 // Interfaces pour typer les données reçues dans les requêtes
 interface CreateContactRequest {
     userid?: number
@@ -266,80 +274,56 @@ router.get('/contact/:id', authMiddleware, async (req: Request, res: Response) =
 
 /* 🔒 ROUTE PROTÉGÉE ADMIN - Tous les messages de contact
 Responsabilité : Lister tous les messages pour l'administration
-Avec les informations des expéditeurs et filtres */
+Avec les informations des expéditeurs et filtres (status, priority, cumulables)
+Paginée : page/limit (ou cursor), sort (createdAt, status, priority, subject), order */
 
-router.get('/admin/contacts', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.get('/admin/contacts', authMiddleware, requirePermission('contacts:read'), async (req: Request, res: Response) => {
     try {
         const { status, priority } = req.query
 
-        let contacts
-        if (status) {
-            // Filtrer par statut
-            contacts = await prisma.contact.findMany({
-                where: { status: status as string },
-                include: {
-                    user: {
-                        select: {
-                            id: true,
-                            firstname: true,
-                            lastname: true,
-                            email: true
-                        }
-                    }
-                },
-                orderBy: {
-                    createdAt: 'desc'
-                }
-            })
-        } else if (priority) {
-            // Filtrer par priorité
-            contacts = await prisma.contact.findMany({
-                where: { priority: priority as string },
-                include: {
-                    user: {
-                        select: {
-                            id: true,
-                            firstname: true,
-                            lastname: true,
-                            email: true
-                        }
+        // Filtres optionnels par statut et par priorité
+        const whereConditions: any = {}
+        if (status) whereConditions.status = status as string
+        if (priority) whereConditions.priority = priority as string
+
+        const pagination = parsePagination(req.query, CONTACT_PAGINATION)
+
+        const contacts = await prisma.contact.findMany({
+            where: whereConditions,
+            include: {
+                user: {
+                    select: {
+                        id: true,
+                        firstname: true,
+                        lastname: true,
+                        email: true
                     }
-                },
-                orderBy: {
-                    createdAt: 'desc'
                 }
-            })
-        } else {
-            // Tous les messages
-            contacts = await prisma.contact.findMany({
-                include: {
-                    user: {
-                        select: {
-                            id: true,
-                            firstname: true,
-                            lastname: true,
-                            email: true
-                        }
-                    }
-                },
-                orderBy: [
-                    { status: 'asc' }, // new en premier
-                    { priority: 'desc' }, // urgent en premier
-                    { createdAt: 'desc' }
-                ]
-            })
-        }
+            },
+            ...toPrismaArgs(pagination)
+        })
+        const total = await prisma.contact.count({ where: whereConditions })
+
+        const page = buildPage(contacts, total, pagination)
 
         res.json({
             success: true,
             message: 'Messages récupérés avec succès',
-            data: contacts,
+            data: page.items,
+            pagination: page.pagination,
             filters: { status, priority }
         })
 
     } catch (error) {
         console.error('Erreur lors de la récupération de tous les messages:', error)
 
+        if (isPaginationError(error)) {
+            return res.status(400).json({
+                success: false,
+                message: (error as Error).message
+            })
+        }
+
         res.status(500).json({
             success: false,
             message: 'Erreur lors de la récupération des messages',
@@ -352,7 +336,7 @@ router.get('/admin/contacts', authMiddleware, requireAdmin, async (req: Request,
 Responsabilité : Permettre aux administrateurs de modifier le statut/priorité
 Utilisée pour marquer comme lu/répondu */
 
-router.put('/admin/contacts/:id', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.put('/admin/contacts/:id', authMiddleware, requirePermission('contacts:manage'), async (req: Request, res: Response) => {
     try {
         const contactId = parseInt(req.params.id)
         const { status, priority } = req.body as UpdateContactRequest
@@ -436,7 +420,7 @@ router.put('/admin/contacts/:id', authMiddleware, requireAdmin, async (req: Requ
 /* 🔒 ROUTE PROTÉGÉE ADMIN - Marquer comme lu
 Responsabilité : Raccourci pour marquer un message comme lu */
 
-router.patch('/admin/contacts/:id/read', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.patch('/admin/contacts/:id/read', authMiddleware, requirePermission('contacts:manage'), async (req: Request, res: Response) => {
     try {
         const contactId = parseInt(req.params.id)
 
@@ -489,7 +473,7 @@ router.patch('/admin/contacts/:id/read', authMiddleware, requireAdmin, async (re
 /* 🔒 ROUTE PROTÉGÉE ADMIN - Marquer comme répondu
 Responsabilité : Raccourci pour marquer un message comme répondu */
 
-router.patch('/admin/contacts/:id/reply', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.patch('/admin/contacts/:id/reply', authMiddleware, requirePermission('contacts:manage'), async (req: Request, res: Response) => {
     try {
         const contactId = parseInt(req.params.id)
 
@@ -546,7 +530,7 @@ router.patch('/admin/contacts/:id/reply', authMiddleware, requireAdmin, async (r
 Responsabilité : Fournir un dashboard avec les statistiques des messages
 Utilisée pour les tableaux de bord administrateur */
 
-router.get('/admin/contacts/stats', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.get('/admin/contacts/stats', authMiddleware, requirePermission('contacts:read'), async (req: Request, res: Response) => {
     try {
         const [totalCount, newMessages, readMessages, repliedMessages, closedMessages] = await Promise.all([
             prisma.contact.count(),
@@ -610,7 +594,7 @@ router.get('/admin/contacts/stats', authMiddleware, requireAdmin, async (req: Re
 Responsabilité : Permettre aux administrateurs de supprimer un message
 Avec vérifications de sécurité */
 
-router.delete('/admin/contacts/:id', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.delete('/admin/contacts/:id', authMiddleware, requirePermission('contacts:manage'), async (req: Request, res: Response) => {
     try {
         const contactId = parseInt(req.params.id)
 
@@ -1,10 +1,18 @@
 import { Router, Request, Response } from "express"
-import { authMiddleware, requireAdmin } from "../middleware/authmiddleware"
+import { authMiddleware, requirePermission } from "../middleware/authmiddleware"
 import { PrismaClient } from "@prisma/client"
+import { buildPage, isPaginationError, PaginationOptions, parsePagination, toPrismaArgs } from "../lib/pagination"
 
 const prisma = new PrismaClient()
 const router = Router() 
 
+// Tris autorisés sur la liste admin des dons
+const DONATION_PAGINATION: PaginationOptions<'createdAt' | 'amount' | 'status' | 'lastname'> = {
+    sortFields: ['createdAt', 'amount', 'status', 'lastname'],
+    defaultSort: 'createdAt',
+    defaultOrder: 'desc'
+}
+
 
 // Interfaces pour typer les données reçues dans les requêtes
 interface CreateDonationRequest {
@@ -242,10 +250,13 @@ router.get('/donations/:id', authMiddleware, async (req: Request, res: Response)
 
 /* 🔒 ROUTE PROTÉGÉE ADMIN - Tous les dons
 Responsabilité : Lister tous les dons pour l'administration
-Avec les informations des donateurs */
+Avec les informations des donateurs
+Paginée : page/limit (ou cursor), sort (createdAt, amount, status, lastname), order */
 
-router.get('/admin/donations', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.get('/admin/donations', authMiddleware, requirePermission('donations:read'), async (req: Request, res: Response) => {
     try {
+        const pagination = parsePagination(req.query, DONATION_PAGINATION)
+
         const donations = await prisma.donation.findMany({
             include: {
                 user: {
@@ -257,20 +268,29 @@ router.get('/admin/donations', authMiddleware, requireAdmin, async (req: Request
                     }
                 }
             },
-            orderBy: {
-                createdAt: 'desc'
-            }
+            ...toPrismaArgs(pagination)
         })
+        const total = await prisma.donation.count()
+
+        const page = buildPage(donations, total, pagination)
 
         res.json({
             success: true,
             message: 'Liste complète des dons récupérée avec succès',
-            data: donations
+            data: page.items,
+            pagination: page.pagination
         })
 
     } catch (error) {
         console.error('Erreur lors de la récupération de tous les dons:', error)
 
+        if (isPaginationError(error)) {
+            return res.status(400).json({
+                success: false,
+                message: (error as Error).message
+            })
+        }
+
         res.status(500).json({
             success: false,
             message: 'Erreur lors de la récupération des dons',
@@ -283,7 +303,7 @@ router.get('/admin/donations', authMiddleware, requireAdmin, async (req: Request
 Responsabilité : Permettre aux administrateurs de modifier le statut d'un don
 Utilisée pour marquer comme payé/échoué */
 
-router.put('/admin/donations/:id', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.put('/admin/donations/:id', authMiddleware, requirePermission('donations:refund'), async (req: Request, res: Response) => {
     try {
         const donationId = parseInt(req.params.id)
         const { status, paymentId, paymentMethod } = req.body as UpdateDonationRequest
@@ -357,7 +377,7 @@ router.put('/admin/donations/:id', authMiddleware, requireAdmin, async (req: Req
 Responsabilité : Fournir un dashboard avec les statistiques des dons
 Utilisée pour les tableaux de bord administrateur */
 
-router.get('/admin/donations/stats', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.get('/admin/donations/stats', authMiddleware, requirePermission('donations:read'), async (req: Request, res: Response) => {
     try {
         const [totalAmount, totalCount, completedDonations, pendingDonations] = await Promise.all([
             prisma.donation.aggregate({
@@ -402,7 +422,7 @@ router.get('/admin/donations/stats', authMiddleware, requireAdmin, async (req: R
 Responsabilité : Permettre aux administrateurs de supprimer un don
 Avec vérifications de sécurité */
 
-router.delete('/admin/donations/:id', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.delete('/admin/donations/:id', authMiddleware, requirePermission('donations:manage'), async (req: Request, res: Response) => {
     try {
         const donationId = parseInt(req.params.id)
 
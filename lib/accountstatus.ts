@@ -0,0 +1,45 @@
+/*
+États d'un compte utilisateur gérés par les administrateurs
+- suspended : blocage temporaire (date de fin optionnelle), levé automatiquement à échéance
+- deactivated : blocage jusqu'à réactivation manuelle
+*/
+
+export const ACCOUNT_STATUSES = ['active', 'suspended', 'deactivated'] as const
+
+export type AccountStatus = typeof ACCOUNT_STATUSES[number]
+
+export interface AccountStatusInfo {
+    accountStatus: string
+    statusReason: string | null
+    suspendedUntil: Date | null
+}
+
+// Vérifie si une suspension est toujours en vigueur (une suspension échue ne bloque plus)
+export const isAccountRestricted = (account: AccountStatusInfo, now: Date = new Date()): boolean => {
+    if (account.accountStatus === 'deactivated') {
+        return true
+    }
+    if (account.accountStatus === 'suspended') {
+        return !account.suspendedUntil || account.suspendedUntil > now
+    }
+    return false
+}
+
+// Message à afficher à l'utilisateur bloqué, ou null si le compte est utilisable
+export const getAccountRestriction = (account: AccountStatusInfo): string | null => {
+    if (!isAccountRestricted(account)) {
+        return null
+    }
+
+    const reason = account.statusReason ? ` Motif : ${account.statusReason}` : ''
+
+    if (account.accountStatus === 'deactivated') {
+        return `Compte désactivé.${reason}`
+    }
+
+    const until = account.suspendedUntil
+        ? ` jusqu'au ${account.suspendedUntil.toLocaleString('fr-FR', { timeZone: 'Europe/Paris' })}`
+        : ''
+
+    return `Compte suspendu${until}.${reason}`
+}
@@ -0,0 +1,203 @@
+import { AnimalTraits } from './animaltraits'
+
+/*
+Questionnaire de mode de vie de l'adoptant et score de compatibilité avec un animal
+Le score est transparent : chaque critère rapporte des points (correspondance complète, partielle ou inconnue)
+et chaque point gagné ou perdu est expliqué dans reasons
+*/
+
+export const HOUSING_TYPES = ['apartment', 'house'] as const
+export type HousingType = typeof HOUSING_TYPES[number]
+
+// Présence au foyer : absent toute la journée, à temps partiel (télétravail, mi-temps), presque toujours présent
+export const TIME_AT_HOME_LEVELS = ['mostly_away', 'part_time', 'mostly_home'] as const
+export type TimeAtHome = typeof TIME_AT_HOME_LEVELS[number]
+
+// Expérience : premier animal, a déjà eu des animaux, expérimenté (animaux difficiles, soins particuliers)
+export const EXPERIENCE_LEVELS = ['none', 'some', 'experienced'] as const
+export type ExperienceLevel = typeof EXPERIENCE_LEVELS[number]
+
+export interface AdopterQuestionnaire {
+    housingType: HousingType
+    hasGarden: boolean
+    timeAtHome: TimeAtHome
+    hasChildren: boolean
+    hasDogs: boolean
+    hasCats: boolean
+    experience: ExperienceLevel
+}
+
+// match : critère rempli, partial : en partie, unknown : animal non évalué, mismatch : incompatible
+export type MatchOutcome = 'match' | 'partial' | 'unknown' | 'mismatch'
+
+export interface MatchReason {
+    criterion: 'children' | 'dogs' | 'cats' | 'garden' | 'energy' | 'experience' | 'houseTrained'
+    outcome: MatchOutcome
+    points: number
+    maxPoints: number
+    message: string
+}
+
+export interface MatchResult {
+    score: number // 0 à 100
+    compatible: boolean // false si au moins une incompatibilité rédhibitoire (enfants, chiens, chats, jardin)
+    reasons: MatchReason[]
+}
+
+// Points de chaque critère (un critère non concerné, ex : pas d'enfants, n'est pas compté)
+const CRITERION_POINTS: Record<MatchReason['criterion'], number> = {
+    children: 25,
+    dogs: 20,
+    cats: 20,
+    garden: 20,
+    energy: 15,
+    experience: 10,
+    houseTrained: 10
+}
+
+// Part des points obtenue selon le résultat : un trait non évalué compte pour moitié
+const OUTCOME_RATIO: Record<MatchOutcome, number> = {
+    match: 1,
+    partial: 0.5,
+    unknown: 0.5,
+    mismatch: 0
+}
+
+// Incompatibilités qui rendent l'adoption déconseillée quel que soit le score
+const BLOCKING_CRITERIA: readonly MatchReason['criterion'][] = ['children', 'dogs', 'cats', 'garden']
+
+// Caractéristiques nécessaires au score (energyLevel tel que stocké en base)
+export type MatchableAnimal = Pick<AnimalTraits, 'goodWithChildren' | 'goodWithDogs' | 'goodWithCats' | 'houseTrained' | 'needsGarden' | 'specialNeeds'> & {
+    energyLevel: string | null
+}
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T => {
+    return typeof value === 'string' && (values as readonly string[]).includes(value)
+}
+
+// Valide un questionnaire complet (toutes les réponses sont requises)
+export const cleanQuestionnaire = (input: Partial<Record<keyof AdopterQuestionnaire, unknown>>): AdopterQuestionnaire => {
+    if (!isOneOf(HOUSING_TYPES, input.housingType)) {
+        throw new Error(`Questionnaire invalide : housingType doit valoir ${HOUSING_TYPES.join(', ')}`)
+    }
+    if (!isOneOf(TIME_AT_HOME_LEVELS, input.timeAtHome)) {
+        throw new Error(`Questionnaire invalide : timeAtHome doit valoir ${TIME_AT_HOME_LEVELS.join(', ')}`)
+    }
+    if (!isOneOf(EXPERIENCE_LEVELS, input.experience)) {
+        throw new Error(`Questionnaire invalide : experience doit valoir ${EXPERIENCE_LEVELS.join(', ')}`)
+    }
+    for (const field of ['hasGarden', 'hasChildren', 'hasDogs', 'hasCats'] as const) {
+        if (typeof input[field] !== 'boolean') {
+            throw new Error(`Questionnaire invalide : ${field} doit valoir true ou false`)
+        }
+    }
+
+    return {
+        housingType: input.housingType,
+        hasGarden: input.hasGarden as boolean,
+        timeAtHome: input.timeAtHome,
+        hasChildren: input.hasChildren as boolean,
+        hasDogs: input.hasDogs as boolean,
+        hasCats: input.hasCats as boolean,
+        experience: input.experience
+    }
+}
+
+// Entente avec les enfants, chiens ou chats du foyer (critère compté seulement s'il y en a)
+const cohabitationReason = (criterion: 'children' | 'dogs' | 'cats', trait: boolean | null, label: string): Omit<MatchReason, 'points' | 'maxPoints'> => {
+    if (trait === true) return { criterion, outcome: 'match', message: `S'entend bien avec les ${label}` }
+    if (trait === false) return { criterion, outcome: 'mismatch', message: `Ne s'entend pas avec les ${label}` }
+    return { criterion, outcome: 'unknown', message: `Entente avec les ${label} pas encore évaluée par le refuge` }
+}
+
+const gardenReason = (questionnaire: AdopterQuestionnaire, animal: MatchableAnimal): Omit<MatchReason, 'points' | 'maxPoints'> => {
+    const criterion = 'garden'
+    if (animal.needsGarden === true) {
+        return questionnaire.hasGarden
+            ? { criterion, outcome: 'match', message: 'A besoin d\'un jardin, et vous en avez un' }
+            : { criterion, outcome: 'mismatch', message: 'A besoin d\'un jardin, que vous n\'avez pas' }
+    }
+    if (animal.needsGarden === false) {
+        return { criterion, outcome: 'match', message: questionnaire.housingType === 'apartment' ? 'Peut vivre en appartement' : 'N\'a pas besoin de jardin' }
+    }
+    return questionnaire.hasGarden
+        ? { criterion, outcome: 'match', message: 'Besoin d\'un jardin non évalué, mais vous en avez un' }
+        : { criterion, outcome: 'unknown', message: 'Vie en appartement pas encore évaluée par le refuge' }
+}
+
+// Niveau d'énergie de l'animal comparé à la présence au foyer
+const energyReason = (questionnaire: AdopterQuestionnaire, animal: MatchableAnimal): Omit<MatchReason, 'points' | 'maxPoints'> => {
+    const criterion = 'energy'
+    switch (animal.energyLevel) {
+        case 'high':
+            if (questionnaire.timeAtHome === 'mostly_home') return { criterion, outcome: 'match', message: 'Très énergique : votre présence au foyer lui conviendra' }
+            if (questionnaire.timeAtHome === 'part_time') return { criterion, outcome: 'partial', message: 'Très énergique : il aura besoin de beaucoup d\'activité en votre présence' }
+            return { criterion, outcome: 'mismatch', message: 'Très énergique : supporte mal de rester seul toute la journée' }
+        case 'medium':
+            return questionnaire.timeAtHome === 'mostly_away'
+                ? { criterion, outcome: 'partial', message: 'Énergie modérée : de longues absences quotidiennes peuvent lui peser' }
+                : { criterion, outcome: 'match', message: 'Énergie modérée, adaptée à votre rythme' }
+        case 'low':
+            return { criterion, outcome: 'match', message: 'Calme, s\'adapte à votre rythme' }
+        default:
+            return { criterion, outcome: 'unknown', message: 'Niveau d\'énergie pas encore évalué par le refuge' }
+    }
+}
+
+const experienceReason = (questionnaire: AdopterQuestionnaire, animal: MatchableAnimal): Omit<MatchReason, 'points' | 'maxPoints'> => {
+    const criterion = 'experience'
+    if (!animal.specialNeeds) {
+        return { criterion, outcome: 'match', message: 'Pas de besoins particuliers' }
+    }
+    if (questionnaire.experience === 'experienced') return { criterion, outcome: 'match', message: 'Besoins particuliers, adaptés à votre expérience' }
+    if (questionnaire.experience === 'some') return { criterion, outcome: 'partial', message: 'Besoins particuliers : le refuge vous accompagnera' }
+    return { criterion, outcome: 'mismatch', message: 'Besoins particuliers : une première adoption est déconseillée' }
+}
+
+const houseTrainedReason = (questionnaire: AdopterQuestionnaire, animal: MatchableAnimal): Omit<MatchReason, 'points' | 'maxPoints'> => {
+    const criterion = 'houseTrained'
+    if (animal.houseTrained === true) return { criterion, outcome: 'match', message: 'Propre' }
+    if (animal.houseTrained === false) {
+        return questionnaire.housingType === 'apartment' || questionnaire.experience === 'none'
+            ? { criterion, outcome: 'mismatch', message: 'Pas encore propre : apprentissage à prévoir' }
+            : { criterion, outcome: 'partial', message: 'Pas encore propre : apprentissage à prévoir' }
+    }
+    return { criterion, outcome: 'unknown', message: 'Propreté pas encore évaluée par le refuge' }
+}
+
+/*
+Score de compatibilité (0 à 100) entre un questionnaire et un animal
+score = points obtenus / points des critères concernés ; les raisons sont triées des points forts aux points faibles
+*/
+export const scoreCompatibility = (questionnaire: AdopterQuestionnaire, animal: MatchableAnimal): MatchResult => {
+    const evaluated = [
+        questionnaire.hasChildren ? cohabitationReason('children', animal.goodWithChildren, 'enfants') : null,
+        questionnaire.hasDogs ? cohabitationReason('dogs', animal.goodWithDogs, 'chiens') : null,
+        questionnaire.hasCats ? cohabitationReason('cats', animal.goodWithCats, 'chats') : null,
+        gardenReason(questionnaire, animal),
+        energyReason(questionnaire, animal),
+        experienceReason(questionnaire, animal),
+        houseTrainedReason(questionnaire, animal)
+    ]
+
+    const reasons: MatchReason[] = evaluated
+        .filter((reason): reason is Omit<MatchReason, 'points' | 'maxPoints'> => reason !== null)
+        .map(reason => {
+            const maxPoints = CRITERION_POINTS[reason.criterion]
+            return { ...reason, points: maxPoints * OUTCOME_RATIO[reason.outcome], maxPoints }
+        })
+        .sort((a, b) => b.points / b.maxPoints - a.points / a.maxPoints || b.maxPoints - a.maxPoints)
+
+    const maxTotal = reasons.reduce((sum, reason) => sum + reason.maxPoints, 0)
+    const total = reasons.reduce((sum, reason) => sum + reason.points, 0)
+
+    return {
+        score: maxTotal > 0 ? Math.round(100 * total / maxTotal) : 0,
+        compatible: !reasons.some(reason => reason.outcome === 'mismatch' && BLOCKING_CRITERIA.includes(reason.criterion)),
+        reasons
+    }
+}
+
+export const isQuestionnaireError = (error: unknown): boolean => {
+    return error instanceof Error && error.message.startsWith('Questionnaire invalide')
+}
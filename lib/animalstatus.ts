@@ -0,0 +1,59 @@
+/*
+Cycle de vie d'un animal du refuge
+- intake : arrivée, en cours d'enregistrement
+- quarantine : isolement sanitaire après l'arrivée
+- available : adoptable, visible dans les listes publiques
+- reserved : une adoption est en cours de finalisation
+- adopted : parti dans sa famille adoptive
+- fostered : en famille d'accueil (toujours sous la responsabilité du refuge)
+- medical_hold : soins en cours, temporairement non adoptable
+- returned : revenu d'adoption, à réévaluer
+- deceased : décédé (état final)
+*/
+
+export const ANIMAL_STATUSES = [
+    'intake',
+    'quarantine',
+    'available',
+    'reserved',
+    'adopted',
+    'fostered',
+    'medical_hold',
+    'returned',
+    'deceased'
+] as const
+
+export type AnimalStatus = typeof ANIMAL_STATUSES[number]
+
+// Transitions autorisées : seul endroit où le cycle de vie est défini
+export const ANIMAL_STATUS_TRANSITIONS: Record<AnimalStatus, readonly AnimalStatus[]> = {
+    intake: ['quarantine', 'available', 'medical_hold', 'fostered', 'deceased'],
+    quarantine: ['available', 'medical_hold', 'fostered', 'deceased'],
+    available: ['reserved', 'adopted', 'fostered', 'medical_hold', 'deceased'],
+    reserved: ['available', 'adopted', 'medical_hold', 'deceased'],
+    adopted: ['returned', 'deceased'],
+    fostered: ['available', 'reserved', 'adopted', 'medical_hold', 'deceased'],
+    medical_hold: ['available', 'quarantine', 'fostered', 'deceased'],
+    returned: ['quarantine', 'medical_hold', 'available', 'fostered', 'deceased'],
+    deceased: []
+}
+
+// Statuts possibles à la création d'une fiche
+export const INITIAL_ANIMAL_STATUSES: readonly AnimalStatus[] = ['intake', 'quarantine', 'available']
+
+// Animaux qui ne sont plus sous la responsabilité du refuge (exclus des rappels de soins)
+export const ANIMAL_STATUSES_OUT_OF_CARE: readonly AnimalStatus[] = ['adopted', 'deceased']
+
+// Ancien statut "pending" (avant le cycle de vie) : équivalent de "reserved"
+export const LEGACY_ANIMAL_STATUSES: Record<string, AnimalStatus> = {
+    pending: 'reserved'
+}
+
+export const isAnimalStatus = (status: string): status is AnimalStatus => {
+    return (ANIMAL_STATUSES as readonly string[]).includes(status)
+}
+
+export const canTransition = (from: string, to: AnimalStatus): boolean => {
+    const current = LEGACY_ANIMAL_STATUSES[from] ?? from
+    return isAnimalStatus(current) && ANIMAL_STATUS_TRANSITIONS[current].includes(to)
+}
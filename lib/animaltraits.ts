@@ -0,0 +1,111 @@
+/*
+Caractère et besoins d'un animal (fiche et filtres de recherche)
+Les booléens valent null tant que le refuge n'a pas pu évaluer l'animal (ex : jamais testé avec des chats)
+specialNeeds : description des besoins particuliers (traitement à vie, handicap, régime...), null si aucun
+*/
+
+export const ANIMAL_ENERGY_LEVELS = ['low', 'medium', 'high'] as const
+export type AnimalEnergyLevel = typeof ANIMAL_ENERGY_LEVELS[number]
+
+export const ANIMAL_SIZES = ['small', 'medium', 'large'] as const
+export type AnimalSize = typeof ANIMAL_SIZES[number]
+
+export const ANIMAL_BOOLEAN_TRAITS = ['goodWithChildren', 'goodWithDogs', 'goodWithCats', 'houseTrained', 'needsGarden'] as const
+export type AnimalBooleanTrait = typeof ANIMAL_BOOLEAN_TRAITS[number]
+
+export type AnimalTraits = Record<AnimalBooleanTrait, boolean | null> & {
+    energyLevel: AnimalEnergyLevel | null
+    size: AnimalSize | null
+    specialNeeds: string | null
+}
+
+export const ANIMAL_TRAIT_FIELDS: readonly (keyof AnimalTraits)[] = [...ANIMAL_BOOLEAN_TRAITS, 'energyLevel', 'size', 'specialNeeds']
+
+// Caractéristiques telles que reçues dans le corps d'une requête (validées par cleanTraits)
+export type AnimalTraitsInput = Partial<Record<keyof AnimalTraits, unknown>>
+
+// Filtres de recherche : un booléen exige la valeur exacte (les animaux non évalués sont exclus)
+export type AnimalTraitFilters = Partial<Record<AnimalBooleanTrait, boolean>> & {
+    energyLevel?: AnimalEnergyLevel[]
+    size?: AnimalSize[]
+    specialNeeds?: boolean // true : uniquement les animaux à besoins particuliers, false : aucun besoin particulier
+}
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T => {
+    return typeof value === 'string' && (values as readonly string[]).includes(value)
+}
+
+/*
+Valide les caractéristiques envoyées dans le corps d'une requête (création ou modification)
+Seuls les champs présents sont retournés ; null remet un champ à "non évalué"
+*/
+export const cleanTraits = (input: AnimalTraitsInput): Partial<AnimalTraits> => {
+    const traits: Partial<AnimalTraits> = {}
+
+    for (const trait of ANIMAL_BOOLEAN_TRAITS) {
+        const value = input[trait]
+        if (value === undefined) continue
+        if (value !== null && typeof value !== 'boolean') {
+            throw new Error(`Caractéristique invalide : ${trait} doit valoir true, false ou null`)
+        }
+        traits[trait] = value
+    }
+
+    if (input.energyLevel !== undefined) {
+        if (input.energyLevel !== null && !isOneOf(ANIMAL_ENERGY_LEVELS, input.energyLevel)) {
+            throw new Error(`Caractéristique invalide : energyLevel doit valoir ${ANIMAL_ENERGY_LEVELS.join(', ')} ou null`)
+        }
+        traits.energyLevel = input.energyLevel
+    }
+
+    if (input.size !== undefined) {
+        if (input.size !== null && !isOneOf(ANIMAL_SIZES, input.size)) {
+            throw new Error(`Caractéristique invalide : size doit valoir ${ANIMAL_SIZES.join(', ')} ou null`)
+        }
+        traits.size = input.size
+    }
+
+    if (input.specialNeeds !== undefined) {
+        if (input.specialNeeds !== null && typeof input.specialNeeds !== 'string') {
+            throw new Error('Caractéristique invalide : specialNeeds doit être un texte ou null')
+        }
+        traits.specialNeeds = (input.specialNeeds as string | null)?.trim().slice(0, 1000) || null
+    }
+
+    return traits
+}
+
+// Booléen de query string : "true" / "false" (ou 1 / 0)
+const parseBooleanFilter = (name: string, value: unknown): boolean => {
+    if (value === 'true' || value === '1') return true
+    if (value === 'false' || value === '0') return false
+    throw new Error(`Filtre invalide : ${name} doit valoir true ou false`)
+}
+
+// Liste de valeurs séparées par des virgules : "energyLevel=low,medium"
+const parseListFilter = <T extends string>(name: string, value: unknown, allowed: readonly T[]): T[] => {
+    const values = typeof value === 'string' ? value.split(',').map(item => item.trim()).filter(Boolean) : []
+    if (values.length === 0 || !values.every(item => isOneOf(allowed, item))) {
+        throw new Error(`Filtre invalide : ${name} doit contenir une ou plusieurs valeurs parmi ${allowed.join(', ')}`)
+    }
+    return Array.from(new Set(values)) as T[]
+}
+
+// Filtres de caractéristiques lus dans la query string (les paramètres absents ou vides sont ignorés)
+export const parseTraitFilters = (query: Record<string, unknown>): AnimalTraitFilters => {
+    const filters: AnimalTraitFilters = {}
+    const isSet = (name: string) => query[name] !== undefined && query[name] !== ''
+
+    for (const trait of ANIMAL_BOOLEAN_TRAITS) {
+        if (isSet(trait)) filters[trait] = parseBooleanFilter(trait, query[trait])
+    }
+    if (isSet('specialNeeds')) filters.specialNeeds = parseBooleanFilter('specialNeeds', query.specialNeeds)
+    if (isSet('energyLevel')) filters.energyLevel = parseListFilter('energyLevel', query.energyLevel, ANIMAL_ENERGY_LEVELS)
+    if (isSet('size')) filters.size = parseListFilter('size', query.size, ANIMAL_SIZES)
+
+    return filters
+}
+
+export const isTraitError = (error: unknown): boolean => {
+    return error instanceof Error && (error.message.startsWith('Caractéristique invalide') || error.message.startsWith('Filtre invalide'))
+}
@@ -0,0 +1,19 @@
+/*
+Liste locale des mots de passe les plus fréquents dans les fuites de données publiques
+(top des listes type "rockyou" / NordPass, versions internationales et françaises)
+Comparaison en minuscules : toute entrée est rejetée quelle que soit la casse
+*/
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+    '123456', '123456789', '12345678', '1234567890', '12345', '1234567', '123123', '111111',
+    '000000', '654321', '666666', '121212', '112233', '123321', '987654321', '159753',
+    '147258369', '123qwe', 'qwerty', 'qwerty123', 'qwertyuiop', 'azerty', 'azerty123',
+    'azertyuiop', 'password', 'password1', 'password123', 'passw0rd', 'p@ssw0rd', 'motdepasse',
+    'mot2passe', 'admin', 'admin123', 'administrator', 'root', 'letmein', 'welcome', 'welcome1',
+    'bienvenue', 'iloveyou', 'jetaime', 'monkey', 'dragon', 'master', 'sunshine', 'princess',
+    'football', 'baseball', 'soleil', 'chouchou', 'doudou', 'loulou', 'marseille', 'olivier',
+    'nicolas', 'camille', 'coucou', 'bonjour', 'superman', 'batman', 'starwars',
+    'trustno1', 'shadow', 'michael', 'jennifer', 'charlie', 'abc123', 'abcdef', 'abcd1234',
+    'aaaaaa', 'zxcvbnm', 'asdfghjkl', 'qazwsx', '1q2w3e4r', '1q2w3e4r5t', '1qaz2wsx', 'zaq12wsx',
+    'changeme', 'secret', 'default', 'guest', 'test', 'test123', 'temppassword', 'temppassword123',
+    'chien', 'chat', 'chaton', 'chiot', 'adoption', 'adaopte', 'animaux', 'refuge'
+])
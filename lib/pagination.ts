@@ -0,0 +1,115 @@
+/*
+Contrat de pagination commun à toutes les routes de liste
+Query string : page (à partir de 1) et limit, ou cursor (id du dernier élément reçu) et limit
+Tri : sort (champ parmi une liste autorisée propre à chaque route) et order (asc / desc)
+Réponse : data (éléments de la page) + pagination { page, limit, total, totalPages, hasNext, nextCursor }
+*/
+
+export type SortOrder = 'asc' | 'desc'
+
+export interface PaginationOptions<TSort extends string> {
+    sortFields: readonly TSort[] // Champs triables (liste blanche)
+    defaultSort: TSort
+    defaultOrder?: SortOrder
+    defaultLimit?: number
+    maxLimit?: number
+}
+
+export interface PaginationParams<TSort extends string = string> {
+    page: number
+    limit: number
+    cursor?: number
+    sort: TSort
+    order: SortOrder
+}
+
+export interface PageInfo {
+    page: number | null // null en mode curseur
+    limit: number
+    total: number
+    totalPages: number
+    hasNext: boolean
+    nextCursor: number | null
+    sort: string
+    order: SortOrder
+}
+
+export interface Page<T> {
+    items: T[]
+    pagination: PageInfo
+}
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+
+// Erreurs de paramètres à renvoyer en 400 par les routes
+export const isPaginationError = (error: unknown): boolean => {
+    return error instanceof Error && error.message.startsWith('Pagination invalide')
+}
+
+const parsePositiveInt = (value: unknown, name: string): number | undefined => {
+    if (value === undefined || value === '') {
+        return undefined
+    }
+
+    const parsed = Number(value)
+    if (!Number.isInteger(parsed) || parsed < 1) {
+        throw new Error(`Pagination invalide : "${name}" doit être un entier positif`)
+    }
+    return parsed
+}
+
+// Lit et valide les paramètres de pagination et de tri de la query string
+export const parsePagination = <TSort extends string>(query: Record<string, unknown>, options: PaginationOptions<TSort>): PaginationParams<TSort> => {
+    const maxLimit = options.maxLimit ?? MAX_LIMIT
+    const limit = Math.min(parsePositiveInt(query.limit, 'limit') ?? options.defaultLimit ?? DEFAULT_LIMIT, maxLimit)
+    const page = parsePositiveInt(query.page, 'page') ?? 1
+    const cursor = parsePositiveInt(query.cursor, 'cursor')
+
+    const sort = (query.sort ?? options.defaultSort) as TSort
+    if (!options.sortFields.includes(sort)) {
+        throw new Error(`Pagination invalide : tri "${sort}" non autorisé. Champs autorisés: ${options.sortFields.join(', ')}`)
+    }
+
+    const order = (query.order ?? options.defaultOrder ?? 'desc') as SortOrder
+    if (order !== 'asc' && order !== 'desc') {
+        throw new Error('Pagination invalide : "order" doit valoir asc ou desc')
+    }
+
+    return { page, limit, cursor, sort, order }
+}
+
+/*
+Arguments Prisma (take, skip, cursor, orderBy) correspondant aux paramètres
+Un élément de plus que la limite est demandé pour savoir s'il existe une page suivante
+L'id sert de second critère de tri pour que l'ordre (et donc le curseur) soit stable
+*/
+export const toPrismaArgs = (params: PaginationParams) => {
+    return {
+        take: params.limit + 1,
+        ...(params.cursor
+            ? { cursor: { id: params.cursor }, skip: 1 }
+            : { skip: (params.page - 1) * params.limit }),
+        orderBy: [{ [params.sort]: params.order }, { id: params.order }]
+    }
+}
+
+// Construit la page à renvoyer à partir des lignes lues (limit + 1) et du nombre total d'éléments
+export const buildPage = <T extends { id: number }>(rows: T[], total: number, params: PaginationParams): Page<T> => {
+    const hasNext = rows.length > params.limit
+    const items = hasNext ? rows.slice(0, params.limit) : rows
+
+    return {
+        items,
+        pagination: {
+            page: params.cursor ? null : params.page,
+            limit: params.limit,
+            total,
+            totalPages: Math.ceil(total / params.limit),
+            hasNext,
+            nextCursor: hasNext ? items[items.length - 1].id : null,
+            sort: params.sort,
+            order: params.order
+        }
+    }
+}
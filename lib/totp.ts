@@ -0,0 +1,112 @@
+import crypto from 'crypto'
+
+/*
+Implémentation TOTP (RFC 6238) compatible Google Authenticator, Authy, FreeOTP...
+Paramètres standards : HMAC-SHA1, 6 chiffres, période de 30 secondes
+*/
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+const DIGITS = 6
+const PERIOD_SECONDS = 30
+
+export const base32Encode = (buffer: Buffer): string => {
+    let bits = 0
+    let value = 0
+    let output = ''
+
+    for (const byte of buffer) {
+        value = (value << 8) | byte
+        bits += 8
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+            bits -= 5
+        }
+    }
+
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+    }
+
+    return output
+}
+
+export const base32Decode = (input: string): Buffer => {
+    const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '')
+    let bits = 0
+    let value = 0
+    const bytes: number[] = []
+
+    for (const char of cleaned) {
+        const index = BASE32_ALPHABET.indexOf(char)
+        if (index === -1) {
+            throw new Error('Secret base32 invalide')
+        }
+        value = (value << 5) | index
+        bits += 5
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255)
+            bits -= 8
+        }
+    }
+
+    return Buffer.from(bytes)
+}
+
+// Génère un secret aléatoire de 160 bits encodé en base32
+export const generateSecret = (): string => base32Encode(crypto.randomBytes(20))
+
+// Numéro de la fenêtre de 30 secondes correspondant à un instant donné
+export const getCounter = (timestamp: number = Date.now()): number => Math.floor(timestamp / 1000 / PERIOD_SECONDS)
+
+// Calcule le code HOTP (RFC 4226) pour un compteur donné
+export const generateHotp = (secret: string, counter: number): string => {
+    const counterBuffer = Buffer.alloc(8)
+    counterBuffer.writeBigUInt64BE(BigInt(counter))
+
+    const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest()
+    const offset = hmac[hmac.length - 1] & 0xf
+    const binary = ((hmac[offset] & 0x7f) << 24)
+        | (hmac[offset + 1] << 16)
+        | (hmac[offset + 2] << 8)
+        | hmac[offset + 3]
+
+    return (binary % 10 ** DIGITS).toString().padStart(DIGITS, '0')
+}
+
+export const generateTotp = (secret: string, timestamp: number = Date.now()): string => {
+    return generateHotp(secret, getCounter(timestamp))
+}
+
+/*
+Vérifie un code TOTP en tolérant un décalage d'horloge de ±window périodes
+Retourne le compteur correspondant (pour empêcher le rejeu d'un même code) ou null
+*/
+export const verifyTotp = (secret: string, code: string, window: number = 1, timestamp: number = Date.now()): number | null => {
+    if (!/^\d{6}$/.test(code)) {
+        return null
+    }
+
+    const current = getCounter(timestamp)
+    for (let offset = -window; offset <= window; offset++) {
+        const expected = generateHotp(secret, current + offset)
+        if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+            return current + offset
+        }
+    }
+
+    return null
+}
+
+// URI otpauth:// à transformer en QR code côté frontend
+export const buildOtpAuthUri = (secret: string, accountName: string, issuer: string): string => {
+    const label = encodeURIComponent(`${issuer}:${accountName}`)
+    const params = new URLSearchParams({
+        secret,
+        issuer,
+        algorithm: 'SHA1',
+        digits: DIGITS.toString(),
+        period: PERIOD_SECONDS.toString()
+    })
+
+    return `otpauth://totp/${label}?${params.toString()}`
+}
@@ -0,0 +1,42 @@
+/*
+Description lisible d'un User-Agent pour la liste des sessions (ex : "Chrome sur Windows")
+Détection volontairement simple : l'ordre des tests compte (Edge et Opera contiennent aussi "Chrome")
+*/
+
+const BROWSERS: [RegExp, string][] = [
+    [/Edg\//, 'Edge'],
+    [/OPR\/|Opera/, 'Opera'],
+    [/Firefox\//, 'Firefox'],
+    [/Chrome\/|CriOS\//, 'Chrome'],
+    [/Safari\//, 'Safari'],
+    [/PostmanRuntime/, 'Postman'],
+    [/curl\//, 'curl']
+]
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+    [/Windows/, 'Windows'],
+    [/iPhone|iPad|iPod/, 'iOS'],
+    [/Android/, 'Android'],
+    [/Mac OS X|Macintosh/, 'macOS'],
+    [/Linux/, 'Linux']
+]
+
+const findLabel = (userAgent: string, patterns: [RegExp, string][]): string | null => {
+    const match = patterns.find(([pattern]) => pattern.test(userAgent))
+    return match ? match[1] : null
+}
+
+export const describeUserAgent = (userAgent: string | null | undefined): string => {
+    if (!userAgent) {
+        return 'Appareil inconnu'
+    }
+
+    const browser = findLabel(userAgent, BROWSERS)
+    const os = findLabel(userAgent, OPERATING_SYSTEMS)
+
+    if (browser && os) {
+        return `${browser} sur ${os}`
+    }
+
+    return browser || os || 'Appareil inconnu'
+}
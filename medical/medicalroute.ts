@@ -0,0 +1,221 @@
+import { Router, Request, Response } from "express"
+import { authMiddleware, requirePermission } from "../middleware/authmiddleware"
+import { MedicalRecordInput, MedicalRecordService } from "../services/medicalrecordservice"
+
+const router = Router()
+
+// Statut HTTP associé aux erreurs de MedicalRecordService
+const medicalErrorStatus = (error: unknown): number | null => {
+    if (!(error instanceof Error)) {
+        return null
+    }
+    if (error.message === 'Animal non trouvé' || error.message === 'Acte médical non trouvé') {
+        return 404
+    }
+    if (error.message.includes('invalide') || error.message.includes('requis') || error.message.includes('possible')
+        || error.message.includes('postérieure')) {
+        return 400
+    }
+    return null
+}
+
+/* 🔒 ROUTE PROTÉGÉE PERSONNEL - Vaccins en retard
+Responsabilité : Lister les rappels de vaccins dépassés des animaux suivis par le refuge
+withinDays (query, optionnel) : inclure aussi les rappels des N prochains jours */
+
+router.get('/vaccinations/overdue', authMiddleware, requirePermission('medical:read'), async (req: Request, res: Response) => {
+    try {
+        const withinDays = req.query.withinDays ? parseInt(req.query.withinDays as string) : 0
+
+        if (isNaN(withinDays) || withinDays < 0 || withinDays > 365) {
+            return res.status(400).json({
+                success: false,
+                message: 'withinDays doit être un nombre de jours entre 0 et 365'
+            })
+        }
+
+        const vaccinations = await MedicalRecordService.getOverdueVaccinations(withinDays)
+
+        res.json({
+            success: true,
+            message: `${vaccinations.length} rappel(s) de vaccin à effectuer`,
+            data: vaccinations
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de la récupération des vaccins en retard:', error)
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la récupération des vaccins en retard',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE PERSONNEL - Dossier médical d'un animal
+Responsabilité : Lister les actes (vaccins, stérilisation, vermifuges, visites, diagnostics, traitements)
+type (query, optionnel) : filtrer sur un type d'acte */
+
+router.get('/animals/:animalId/records', authMiddleware, requirePermission('medical:read'), async (req: Request, res: Response) => {
+    try {
+        const animalId = parseInt(req.params.animalId)
+
+        if (isNaN(animalId)) {
+            return res.status(400).json({
+                success: false,
+                message: 'ID d\'animal invalide'
+            })
+        }
+
+        const records = await MedicalRecordService.listRecords(animalId, req.query.type as string | undefined)
+
+        res.json({
+            success: true,
+            data: records,
+            summary: await MedicalRecordService.getSummary(animalId)
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de la récupération du dossier médical:', error)
+
+        const status = medicalErrorStatus(error)
+        if (status) {
+            return res.status(status).json({
+                success: false,
+                message: (error as Error).message
+            })
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la récupération du dossier médical',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE PERSONNEL - Ajouter un acte médical
+Body : { type, title, performedAt, dueAt? (rappel), endsAt? (fin de traitement), veterinarian?, notes? } */
+
+router.post('/animals/:animalId/records', authMiddleware, requirePermission('medical:write'), async (req: Request, res: Response) => {
+    try {
+        const animalId = parseInt(req.params.animalId)
+
+        if (isNaN(animalId)) {
+            return res.status(400).json({
+                success: false,
+                message: 'ID d\'animal invalide'
+            })
+        }
+
+        const record = await MedicalRecordService.createRecord(animalId, req.body as MedicalRecordInput, req.user!.userId)
+
+        res.status(201).json({
+            success: true,
+            message: 'Acte médical enregistré avec succès',
+            data: record
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de l\'ajout de l\'acte médical:', error)
+
+        const status = medicalErrorStatus(error)
+        if (status) {
+            return res.status(status).json({
+                success: false,
+                message: (error as Error).message
+            })
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de l\'ajout de l\'acte médical',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE PERSONNEL - Modifier un acte médical
+Seuls les champs envoyés sont modifiés */
+
+router.put('/animals/:animalId/records/:recordId', authMiddleware, requirePermission('medical:write'), async (req: Request, res: Response) => {
+    try {
+        const animalId = parseInt(req.params.animalId)
+        const recordId = parseInt(req.params.recordId)
+
+        if (isNaN(animalId) || isNaN(recordId)) {
+            return res.status(400).json({
+                success: false,
+                message: 'ID d\'animal ou d\'acte invalide'
+            })
+        }
+
+        const record = await MedicalRecordService.updateRecord(animalId, recordId, req.body as Partial<MedicalRecordInput>)
+
+        res.json({
+            success: true,
+            message: 'Acte médical mis à jour avec succès',
+            data: record
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de la mise à jour de l\'acte médical:', error)
+
+        const status = medicalErrorStatus(error)
+        if (status) {
+            return res.status(status).json({
+                success: false,
+                message: (error as Error).message
+            })
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la mise à jour de l\'acte médical',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE PERSONNEL - Supprimer un acte médical saisi par erreur */
+
+router.delete('/animals/:animalId/records/:recordId', authMiddleware, requirePermission('medical:write'), async (req: Request, res: Response) => {
+    try {
+        const animalId = parseInt(req.params.animalId)
+        const recordId = parseInt(req.params.recordId)
+
+        if (isNaN(animalId) || isNaN(recordId)) {
+            return res.status(400).json({
+                success: false,
+                message: 'ID d\'animal ou d\'acte invalide'
+            })
+        }
+
+        const result = await MedicalRecordService.deleteRecord(animalId, recordId)
+
+        res.json({
+            success: true,
+            message: result.message
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de la suppression de l\'acte médical:', error)
+
+        const status = medicalErrorStatus(error)
+        if (status) {
+            return res.status(status).json({
+                success: false,
+                message: (error as Error).message
+            })
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la suppression de l\'acte médical',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
+export default router
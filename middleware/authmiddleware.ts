@@ -1,5 +1,11 @@
 import { NextFunction, Request, Response } from 'express';
 import { AuthService } from '../services/authservice'
+import { SessionService } from '../services/sessionservice'
+import { ClientContext } from '../services/autheventservice'
+import { Permission, RoleService } from '../services/roleservice'
+import { TwoFactorService } from '../services/twofactorservice'
+import { getAccountRestriction } from '../lib/accountstatus'
+import { ApiKeyPrincipal, ApiKeyService } from '../services/apikeyservice'
 
 
 declare global {
@@ -9,17 +15,23 @@ declare global {
                 userId: number
                 email: string
                 role: string
+                sessionId: string
+                impersonatorId?: number // Renseigné si un admin consulte le compte en impersonation
             }
+            apiKey?: ApiKeyPrincipal // Renseigné si la requête est authentifiée par une clé d'API
         }
     }
 }
 
+// Méthodes autorisées avec un token d'impersonation
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS']
+
 /* 
 req : Contient les infos sur la requête entrante
 res : Envoie la réponse
 next : Est une fonction spéciale que j'appelle pour me dire que "tout va bien"
 */
-export const authMiddleware = (req: Request, res: Response, next: NextFunction) => {
+export const authMiddleware = async (req: Request, res: Response, next: NextFunction) => {
     try {
         // Recherche "le badge d'accès dans les headers". Les tokens sont envoyés dans le header 
         const authHeader = req.headers.authorization 
@@ -35,18 +47,59 @@ export const authMiddleware = (req: Request, res: Response, next: NextFunction)
         
         // Le middleware demande à AuthService de vérifier que le token est authentique et toujours valide
         const decoded = AuthService.verifyToken(token)
-        if (!decoded) {
+        if (!decoded || !decoded.sid || decoded.tv === undefined) {
             return res.status(401).json({
                 success: false,
                 message: "Token invalide ou expiré"
             })
         }
+
+        /* La signature ne suffit pas : la session doit toujours être active (pas de logout ni de révocation)
+        et le token doit refléter le rôle actuel (tv incrémenté à chaque changement de rôle ou de mot de passe).
+        Un token périmé est rejeté : le client obtient un token à jour via /refresh */
+        const session = await SessionService.getActiveSessionUser(decoded.sid, decoded.tv)
+        if (!session || (session.impersonatorId ?? undefined) !== decoded.imp) {
+            return res.status(401).json({
+                success: false,
+                message: "Session révoquée ou expirée"
+            })
+        }
+
+        // Impersonation (support) : lecture seule, toute modification est refusée
+        if (decoded.imp !== undefined) {
+            res.setHeader('X-Impersonated-By', decoded.imp.toString())
+
+            if (!READ_ONLY_METHODS.includes(req.method)) {
+                return res.status(403).json({
+                    success: false,
+                    message: "Mode impersonation : consultation uniquement, aucune modification n'est autorisée"
+                })
+            }
+        }
+
+        // Compte suspendu ou désactivé par un administrateur
+        const restriction = getAccountRestriction(session.user)
+        if (restriction) {
+            return res.status(403).json({
+                success: false,
+                message: restriction
+            })
+        }
+
+        // Dernière activité affichée dans la liste des sessions de l'utilisateur
+        await SessionService.touchSession(decoded.sid, getClientInfo(req))
         
         /* Si toutes les vérifications passent alors le middleware fait 2 choses cruciales :
         1 : Il enrichit req avec les infos de l'utilisateur du token 
         2 : Il appelle next() qui dit à Express "Tout va bien, continue vers la route demandée"
         */ 
-        req.user = decoded
+        req.user = {
+            userId: decoded.userId,
+            email: decoded.email,
+            role: decoded.role,
+            sessionId: decoded.sid,
+            impersonatorId: decoded.imp
+        }
         next()
         
     } catch (error) {
@@ -58,8 +111,114 @@ export const authMiddleware = (req: Request, res: Response, next: NextFunction)
     }   
 }
 
-// Middleware pour vérifier que l'utilisateur est administrateur
-export const requireAdmin = async (req: Request, res: Response, next: NextFunction) => {
+/*
+Middleware acceptant une clé d'API (header X-API-Key) à la place du token JWT
+Réservé aux routes qui n'utilisent pas req.user (partenaires, scripts d'import)
+Chaque requête effectuée avec une clé est journalisée avec son code de réponse
+*/
+export const authOrApiKeyMiddleware = async (req: Request, res: Response, next: NextFunction) => {
+    const rawKey = req.get('X-API-Key')
+    if (!rawKey) {
+        return authMiddleware(req, res, next)
+    }
+
+    try {
+        const apiKey = await ApiKeyService.authenticate(rawKey)
+        if (!apiKey) {
+            return res.status(401).json({
+                success: false,
+                message: "Clé d'API invalide, expirée ou révoquée"
+            })
+        }
+
+        const { ip, userAgent } = getClientInfo(req)
+        res.on('finish', () => {
+            ApiKeyService.logRequest(apiKey.id, {
+                method: req.method,
+                path: req.originalUrl,
+                statusCode: res.statusCode,
+                ip,
+                userAgent
+            })
+        })
+
+        req.apiKey = apiKey
+        next()
+
+    } catch (error) {
+        console.error('Erreur dans le middleware de clé d\'API:', error)
+        return res.status(500).json({
+            success: false,
+            message: 'Erreur serveur lors de l\'authentification'
+        })
+    }
+}
+
+/*
+Middleware pour vérifier que l'utilisateur possède toutes les permissions demandées
+Le rôle est relu en base (et non depuis le token) pour tenir compte des changements récents
+Exemple : router.post('/animals', authMiddleware, requirePermission('animals:write'), ...)
+*/
+export const requirePermission = (...permissions: Permission[]) => {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        // Clé d'API : les permissions sont celles accordées à la clé (pas de rôle ni de 2FA)
+        if (req.apiKey) {
+            const missing = permissions.filter(permission => !req.apiKey!.scopes.includes(permission))
+            if (missing.length > 0) {
+                return res.status(403).json({
+                    success: false,
+                    message: `Permission requise pour cette action: ${missing.join(', ')}`
+                })
+            }
+            return next()
+        }
+
+        if (!req.user) {
+            return res.status(401).json({ 
+                success: false,
+                message: 'Authentification requise' 
+            })
+        }
+
+        try {
+            const state = await AuthService.getUserSecurityState(req.user.userId)
+            const isAllowed = !!state && await RoleService.hasPermissions(state.role, permissions)
+
+            if (!isAllowed) {
+                return res.status(403).json({ 
+                    success: false,
+                    message: `Permission requise pour cette action: ${permissions.join(', ')}`
+                })
+            }
+
+            // Politique de sécurité : le personnel doit avoir activé la double authentification
+            if (!state.twoFactorEnabled && TwoFactorService.isRequiredForStaff()) {
+                return res.status(403).json({
+                    success: false,
+                    message: 'Double authentification requise : activez-la depuis votre profil pour accéder aux fonctions d\'administration'
+                })
+            }
+
+            next()
+        } catch (error) {
+            console.error('Erreur vérification permissions:', error)
+            return res.status(500).json({ 
+                success: false,
+                message: 'Erreur lors de la vérification des permissions' 
+            })
+        }
+    }
+}
+
+/*
+Middleware pour exiger une adresse email confirmée (ex : avant une demande d'adoption)
+Désactivable avec REQUIRE_EMAIL_VERIFICATION_FOR_ADOPTION=false
+*/
+export const requireVerifiedEmail = async (req: Request, res: Response, next: NextFunction) => {
+    if (process.env.REQUIRE_EMAIL_VERIFICATION_FOR_ADOPTION === 'false') {
+        return next()
+    }
+
     if (!req.user) {
         return res.status(401).json({ 
             success: false,
@@ -68,31 +227,29 @@ export const requireAdmin = async (req: Request, res: Response, next: NextFuncti
     }
 
     try {
-        const isAdmin = await AuthService.isAdmin(req.user.userId)
-        
-        if (!isAdmin) {
-            return res.status(403).json({ 
+        const isVerified = await AuthService.isEmailVerified(req.user.userId)
+
+        if (!isVerified) {
+            return res.status(403).json({
                 success: false,
-                message: 'Accès administrateur requis pour cette action'
+                message: 'Vous devez confirmer votre adresse email avant d\'effectuer cette action'
             })
         }
-        
+
         next()
     } catch (error) {
-        console.error('Erreur vérification admin:', error)
+        console.error('Erreur vérification email:', error)
         return res.status(500).json({ 
             success: false,
-            message: 'Erreur lors de la vérification des permissions' 
+            message: 'Erreur lors de la vérification de l\'adresse email' 
         })
     }
 }
 
-// Middleware pour loguer les tentatives d'authentification (utile pour la sécurité)
-export const logAuthAttempt = (req: Request, res: Response, next: NextFunction) => {
-    const { email } = req.body
-    const ip = req.ip || req.connection?.remoteAddress
-    const userAgent = req.get('User-Agent')
-    
-    console.log(`[AUTH] Tentative - Email: ${email || 'N/A'}, IP: ${ip}, UserAgent: ${userAgent}`)
-    next()
+// Extrait l'adresse IP et le User-Agent du client (limitation des tentatives, journal d'audit)
+export const getClientInfo = (req: Request): ClientContext => {
+    return {
+        ip: req.ip || req.connection?.remoteAddress,
+        userAgent: req.get('User-Agent')
+    }
 }
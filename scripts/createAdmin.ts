@@ -0,0 +1,76 @@
+import readline from 'readline';
+import { AuthService } from '../services/authservice';
+
+/*
+Script d'initialisation du premier administrateur
+Les rôles sont gérés uniquement en base : ce script ne sert qu'une fois, tant qu'aucun admin n'existe.
+Ensuite, les promotions passent par /api/admin/promote/:userId ou PATCH /api/useradmin/admin/users/:id/role
+
+Utilisation :
+  npm run create-admin -- <email> <prénom> <nom>      (mot de passe via ADMIN_PASSWORD ou saisi au clavier)
+  npm run promote-admin -- <email>                    (promeut un compte existant)
+*/
+
+const ask = (question: string): Promise<string> => {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout })
+    return new Promise(resolve => rl.question(question, answer => {
+        rl.close()
+        resolve(answer.trim())
+    }))
+}
+
+const createAdmin = async (args: string[]) => {
+    const [email, firstname, lastname] = args
+
+    if (!email || !firstname || !lastname) {
+        throw new Error('Usage : npm run create-admin -- <email> <prénom> <nom>')
+    }
+
+    if (!AuthService.isValidEmail(email)) {
+        throw new Error('Format d\'email invalide')
+    }
+
+    const password = process.env.ADMIN_PASSWORD || await ask('Mot de passe : ')
+    const passwordValidation = AuthService.isValidPassword(password, { firstname, lastname, email })
+    if (!passwordValidation.valid) {
+        throw new Error(passwordValidation.message)
+    }
+
+    const user = await AuthService.bootstrapAdmin({
+        firstname,
+        lastname,
+        email: email.toLowerCase(),
+        password
+    })
+
+    console.log(`✅ Administrateur créé : ${user.email} (id ${user.id})`)
+}
+
+const promoteAdmin = async (args: string[]) => {
+    const [email] = args
+
+    if (!email) {
+        throw new Error('Usage : npm run promote-admin -- <email>')
+    }
+
+    const user = await AuthService.bootstrapPromoteAdmin(email.toLowerCase())
+
+    console.log(`✅ ${user.email} (id ${user.id}) est maintenant administrateur`)
+}
+
+const main = async () => {
+    const [command, ...args] = process.argv.slice(2)
+
+    if (command === 'promote') {
+        await promoteAdmin(args)
+    } else {
+        await createAdmin(command ? [command, ...args] : [])
+    }
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch(error => {
+        console.error('❌', error instanceof Error ? error.message : error)
+        process.exit(1)
+    })
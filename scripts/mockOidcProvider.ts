@@ -0,0 +1,151 @@
+import crypto from 'crypto';
+import express from 'express';
+import JWT from 'jsonwebtoken';
+
+/*
+Fournisseur OpenID Connect minimal pour le développement et les tests de la connexion OIDC
+Implémente : découverte, page d'autorisation (formulaire sans mot de passe), endpoint token avec PKCE S256, JWKS
+
+Utilisation :
+  npm run mock-idp
+  OIDC_PROVIDERS='[{"id":"mock","name":"IdP de test","issuer":"http://localhost:4010","clientId":"adaopte","clientSecret":"secret"}]'
+
+Variables : MOCK_IDP_PORT (4010), MOCK_IDP_CLIENT_ID (adaopte), MOCK_IDP_CLIENT_SECRET (secret)
+⚠️ Ne jamais utiliser en production : n'importe qui peut se connecter avec n'importe quel email
+*/
+
+const port = parseInt(process.env.MOCK_IDP_PORT || '4010')
+const issuer = `http://localhost:${port}`
+const clientId = process.env.MOCK_IDP_CLIENT_ID || 'adaopte'
+const clientSecret = process.env.MOCK_IDP_CLIENT_SECRET || 'secret'
+
+// Clé de signature régénérée à chaque démarrage
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+const kid = crypto.randomBytes(8).toString('hex')
+
+interface PendingCode {
+    redirectUri: string
+    nonce?: string
+    codeChallenge: string
+    email: string
+    givenName: string
+    familyName: string
+    expiresAt: number
+}
+
+const codes = new Map<string, PendingCode>()
+
+const escapeHtml = (value: string): string => value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`)
+
+const app = express()
+app.use(express.urlencoded({ extended: true }))
+
+app.get('/.well-known/openid-configuration', (req, res) => {
+    res.json({
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256'],
+        scopes_supported: ['openid', 'email', 'profile']
+    })
+})
+
+app.get('/jwks', (req, res) => {
+    res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid, use: 'sig', alg: 'RS256' }] })
+})
+
+// Page d'autorisation : choisir l'identité à utiliser (paramètres OAuth conservés en champs cachés)
+app.get('/authorize', (req, res) => {
+    const params = req.query as Record<string, string>
+
+    if (params.client_id !== clientId || params.response_type !== 'code' || params.code_challenge_method !== 'S256' || !params.code_challenge) {
+        return res.status(400).send('Requête d\'autorisation invalide (client_id, response_type=code et PKCE S256 requis)')
+    }
+
+    const hidden = ['redirect_uri', 'state', 'nonce', 'code_challenge']
+        .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(params[name] || '')}">`)
+        .join('')
+
+    res.send(`<!doctype html>
+<html><body>
+<h1>IdP de test</h1>
+<form method="post" action="/authorize">
+${hidden}
+<label>Email <input name="email" value="${escapeHtml(params.login_hint || '')}" required></label><br>
+<label>Prénom <input name="given_name" value="Test"></label><br>
+<label>Nom <input name="family_name" value="OIDC"></label><br>
+<button type="submit">Se connecter</button>
+</form>
+</body></html>`)
+})
+
+app.post('/authorize', (req, res) => {
+    const { redirect_uri, state, nonce, code_challenge, email, given_name, family_name } = req.body
+
+    if (!redirect_uri || !code_challenge || !email) {
+        return res.status(400).send('Paramètres manquants')
+    }
+
+    const code = crypto.randomBytes(24).toString('base64url')
+    codes.set(code, {
+        redirectUri: redirect_uri,
+        nonce,
+        codeChallenge: code_challenge,
+        email: email.trim().toLowerCase(),
+        givenName: given_name || 'Test',
+        familyName: family_name || 'OIDC',
+        expiresAt: Date.now() + 60 * 1000
+    })
+
+    const target = new URL(redirect_uri)
+    target.searchParams.set('code', code)
+    if (state) {
+        target.searchParams.set('state', state)
+    }
+
+    res.redirect(target.toString())
+})
+
+app.post('/token', (req, res) => {
+    const { grant_type, code, redirect_uri, code_verifier } = req.body
+    const pending = codes.get(code)
+    codes.delete(code)
+
+    if (req.body.client_id !== clientId || req.body.client_secret !== clientSecret) {
+        return res.status(401).json({ error: 'invalid_client' })
+    }
+
+    if (grant_type !== 'authorization_code' || !pending || pending.expiresAt < Date.now() || pending.redirectUri !== redirect_uri) {
+        return res.status(400).json({ error: 'invalid_grant' })
+    }
+
+    const challenge = crypto.createHash('sha256').update(code_verifier || '').digest('base64url')
+    if (challenge !== pending.codeChallenge) {
+        return res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' })
+    }
+
+    const idToken = JWT.sign({
+        sub: crypto.createHash('sha256').update(pending.email).digest('hex').slice(0, 24),
+        email: pending.email,
+        email_verified: true,
+        given_name: pending.givenName,
+        family_name: pending.familyName,
+        name: `${pending.givenName} ${pending.familyName}`,
+        nonce: pending.nonce
+    }, privateKey, { algorithm: 'RS256', keyid: kid, issuer, audience: clientId, expiresIn: '5m' })
+
+    res.json({
+        access_token: crypto.randomBytes(24).toString('base64url'),
+        token_type: 'Bearer',
+        expires_in: 300,
+        id_token: idToken
+    })
+})
+
+app.listen(port, () => {
+    console.log(`🧪 IdP OIDC de test sur ${issuer} (client_id=${clientId})`)
+})
@@ -0,0 +1,195 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { AuthService } from './authservice';
+import { AuthEventService, ClientContext } from './autheventservice';
+import { LoginThrottleService } from './loginthrottleservice';
+import { TwoFactorService } from './twofactorservice';
+
+const prisma = new PrismaClient()
+
+/*
+Données personnelles (RGPD) : export de toutes les données d'un utilisateur et suppression de compte
+La suppression anonymise le compte au lieu de le supprimer : l'historique des adoptions
+et les dons (obligations comptables) sont conservés sans rattachement à une personne identifiable
+*/
+export class AccountService {
+    private static readonly EXPORT_FORMAT_VERSION = 1
+
+    // Adresse unique et non routable (.invalid) qui libère l'email d'origine
+    private static anonymizedEmail(userId: number): string {
+        return `deleted-${userId}@anonymized.invalid`
+    }
+
+    // Archive JSON de toutes les données rattachées à l'utilisateur
+    static async exportUserData(userId: number, context: ClientContext = {}) {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: {
+                id: true,
+                firstname: true,
+                lastname: true,
+                email: true,
+                phone: true,
+                role: true,
+                createdAt: true,
+                emailVerifiedAt: true,
+                twoFactorEnabledAt: true,
+                adopt: {
+                    include: {
+                        animal: {
+                            select: { id: true, name: true, type: true, breed: true }
+                        }
+                    },
+                    orderBy: { createdAt: 'desc' }
+                },
+                donations: {
+                    orderBy: { createdAt: 'desc' }
+                },
+                contacts: {
+                    orderBy: { createdAt: 'desc' }
+                },
+                adopterProfile: true,
+                sessions: {
+                    select: {
+                        id: true,
+                        ip: true,
+                        userAgent: true,
+                        createdAt: true,
+                        lastSeenAt: true,
+                        revokedAt: true
+                    },
+                    orderBy: { createdAt: 'desc' }
+                },
+                authEvents: {
+                    select: {
+                        type: true,
+                        reason: true,
+                        ip: true,
+                        userAgent: true,
+                        createdAt: true
+                    },
+                    orderBy: { createdAt: 'desc' }
+                }
+                // password, secret 2FA et hash des tokens volontairement exclus
+            }
+        })
+
+        if (!user) {
+            throw new Error('Utilisateur non trouvé')
+        }
+
+        const { adopt, donations, contacts, adopterProfile, sessions, authEvents, ...profile } = user
+
+        await AuthEventService.record({ type: 'data_export', userId, email: user.email, ...context })
+
+        return {
+            formatVersion: this.EXPORT_FORMAT_VERSION,
+            exportedAt: new Date(),
+            profile,
+            adoptions: adopt,
+            adopterQuestionnaire: adopterProfile,
+            donations,
+            contacts,
+            sessions,
+            securityEvents: authEvents
+        }
+    }
+
+    /*
+    Anonymise un compte (suppression RGPD)
+    - demandes d'adoption en attente supprimées (comme une annulation), historique anonymisé
+    - dons conservés tels quels : identité du donateur nécessaire aux reçus fiscaux et à la comptabilité
+    - messages de contact et questionnaire adoptant supprimés, sessions / tokens / codes de secours / identités externes supprimés
+    - journal de sécurité conservé sans email, IP ni navigateur
+    */
+    static async anonymizeUser(userId: number): Promise<void> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { id: true, email: true, deletedAt: true }
+        })
+
+        if (!user) {
+            throw new Error('Utilisateur non trouvé')
+        }
+
+        if (user.deletedAt) {
+            throw new Error('Ce compte a déjà été supprimé')
+        }
+
+        // Mot de passe aléatoire jamais communiqué : aucune connexion possible
+        const unusablePassword = await AuthService.hashPassword(crypto.randomBytes(32).toString('hex'))
+
+        await prisma.$transaction([
+            prisma.adopt.deleteMany({ where: { userid: userId, status: 'pending' } }),
+            prisma.adopt.updateMany({
+                where: { userid: userId },
+                data: { firstname: 'Anonyme', lastname: 'Anonyme', phone: '' }
+            }),
+            prisma.contact.deleteMany({ where: { userid: userId } }),
+            prisma.adopterProfile.deleteMany({ where: { userId } }),
+            prisma.session.deleteMany({ where: { userId } }),
+            prisma.userToken.deleteMany({ where: { userId } }),
+            prisma.recoveryCode.deleteMany({ where: { userId } }),
+            prisma.userIdentity.deleteMany({ where: { userId } }),
+            prisma.authEvent.updateMany({
+                where: { userId },
+                data: { email: null, ip: null, userAgent: null }
+            }),
+            prisma.user.update({
+                where: { id: userId },
+                data: {
+                    firstname: 'Utilisateur',
+                    lastname: 'supprimé',
+                    email: this.anonymizedEmail(userId),
+                    phone: null,
+                    password: unusablePassword,
+                    role: 'user',
+                    emailVerifiedAt: null,
+                    twoFactorSecret: null,
+                    twoFactorEnabledAt: null,
+                    twoFactorLastCounter: null,
+                    tokenVersion: { increment: 1 },
+                    deletedAt: new Date()
+                }
+            })
+        ])
+
+        await LoginThrottleService.unlockAccount(user.email)
+    }
+
+    /*
+    Suppression de son propre compte
+    Exige le mot de passe (et un code 2FA si activée) ; le dernier administrateur ne peut pas se supprimer
+    */
+    static async deleteOwnAccount(userId: number, password: string, code: string | undefined, context: ClientContext = {}): Promise<void> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId }
+        })
+
+        if (!user || user.deletedAt) {
+            throw new Error('Utilisateur non trouvé')
+        }
+
+        const isPasswordValid = await AuthService.comparePassword(password, user.password)
+        if (!isPasswordValid) {
+            throw new Error('Mot de passe incorrect')
+        }
+
+        if (user.twoFactorEnabledAt) {
+            const result = code ? await TwoFactorService.verify(userId, code) : { valid: false }
+            if (!result.valid) {
+                throw new Error('Code de double authentification incorrect')
+            }
+        }
+
+        if (user.role === 'admin') {
+            const adminCount = await prisma.user.count({ where: { role: 'admin' } })
+            if (adminCount <= 1) {
+                throw new Error('Impossible de supprimer le dernier compte administrateur')
+            }
+        }
+
+        await this.anonymizeUser(userId)
+        await AuthEventService.record({ type: 'account_deletion', userId, reason: 'self_service', ...context })
+    }
+}
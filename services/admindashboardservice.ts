@@ -143,7 +143,7 @@ export class AdminDashboardService {
         })
       ]);
 
-      const pendingAnimals = await prisma.animal.count({ where: { status: 'pending' } });
+      const pendingAnimals = await prisma.animal.count({ where: { status: 'reserved' } });
 
       // Animaux par type
       const animalsByType = await prisma.animal.groupBy({
@@ -1,8 +1,22 @@
 import { PrismaClient } from '@prisma/client';
-import bcrypt from 'bcryptjs';
+import { LoginThrottleService } from './loginthrottleservice';
+import { AuthEventService, ClientContext } from './autheventservice';
+import { RoleService } from './roleservice';
+import { AuthService } from './authservice';
+import { PasswordPolicyService } from './passwordpolicyservice';
+import { AccountService } from './accountservice';
+import { SessionService } from './sessionservice';
+import { buildPage, Page, PaginationOptions, PaginationParams, toPrismaArgs } from '../lib/pagination';
 
 const prisma = new PrismaClient();
 
+// Tris autorisés sur la liste des utilisateurs
+export const USER_PAGINATION: PaginationOptions<'createdAt' | 'lastname' | 'firstname' | 'email' | 'role' | 'accountStatus'> = {
+  sortFields: ['createdAt', 'lastname', 'firstname', 'email', 'role', 'accountStatus'],
+  defaultSort: 'createdAt',
+  defaultOrder: 'desc'
+};
+
 export interface AdminUserData {
   id: number;
   firstname: string;
@@ -11,12 +25,22 @@ export interface AdminUserData {
   phone: string | null;
   role: string;
   createdAt: Date;
+  // Suspension / désactivation par un administrateur
+  accountStatus: string;
+  statusReason: string | null;
+  suspendedUntil: Date | null;
   // Statistiques calculées
   totalAdoptions: number;
   totalDonations: number;
   pendingAdoptions: number;
   approvedAdoptions: number;
   totalDonationAmount: number;
+  // État de verrouillage suite aux échecs de connexion (détail utilisateur uniquement)
+  lock?: {
+    isLocked: boolean;
+    lockedUntil: Date | null;
+    failedAttempts: number;
+  };
 }
 
 export interface CreateUserData {
@@ -36,15 +60,28 @@ export interface UpdateUserData {
   role?: string;
 }
 
+/*
+Seuls champs modifiables par un administrateur (PUT /admin/users/:id)
+L'état de sécurité (statut du compte, 2FA, version des tokens, mot de passe, vérification de l'email)
+passe uniquement par les routes dédiées, qui l'auditent
+*/
+export const UPDATABLE_USER_FIELDS: readonly (keyof UpdateUserData)[] = ['firstname', 'lastname', 'email', 'phone', 'role'];
+
+export interface SuspendUserData {
+  status: 'suspended' | 'deactivated';
+  reason: string;
+  until?: Date; // Uniquement pour une suspension temporaire
+}
+
 export class AdminUserService {
-  // Récupérer tous les utilisateurs avec leurs statistiques
-  static async getAllUsers(): Promise<{ success: boolean; data?: AdminUserData[]; error?: string }> {
+  // Récupérer une page d'utilisateurs avec leurs statistiques
+  static async getAllUsers(params: PaginationParams): Promise<{ success: boolean; data?: Page<AdminUserData>; error?: string }> {
     try {
       console.log('🔥 AdminUserService.getAllUsers appelé');
 
-      // Récupérer tous les utilisateurs
-      const users = await prisma.user.findMany({
-        orderBy: { createdAt: 'desc' },
+      // Récupérer la page d'utilisateurs demandée
+      const usersQuery = prisma.user.findMany({
+        ...toPrismaArgs(params),
         select: {
           id: true,
           firstname: true,
@@ -53,6 +90,9 @@ export class AdminUserService {
           phone: true,
           role: true,
           createdAt: true,
+          accountStatus: true,
+          statusReason: true,
+          suspendedUntil: true,
           // Relations pour calculer les stats
           adopt: {
             select: {
@@ -69,6 +109,9 @@ export class AdminUserService {
         }
       });
 
+      const [rows, total] = await Promise.all([usersQuery, prisma.user.count()]);
+      const { items: users, pagination } = buildPage(rows, total, params);
+
       // Calculer les statistiques pour chaque utilisateur
       const usersWithStats: AdminUserData[] = users.map(user => {
         const totalAdoptions = user.adopt.length;
@@ -85,6 +128,9 @@ export class AdminUserService {
           phone: user.phone,
           role: user.role || 'user',
           createdAt: user.createdAt!,
+          accountStatus: user.accountStatus,
+          statusReason: user.statusReason,
+          suspendedUntil: user.suspendedUntil,
           totalAdoptions,
           pendingAdoptions,
           approvedAdoptions,
@@ -95,7 +141,7 @@ export class AdminUserService {
 
       console.log(`✅ ${usersWithStats.length} utilisateurs récupérés avec leurs statistiques`);
 
-      return { success: true, data: usersWithStats };
+      return { success: true, data: { items: usersWithStats, pagination } };
     } catch (error) {
       console.error('❌ Erreur lors de la récupération des utilisateurs:', error);
       return { success: false, error: 'Erreur lors de la récupération des utilisateurs' };
@@ -130,11 +176,15 @@ export class AdminUserService {
         phone: user.phone,
         role: user.role || 'user',
         createdAt: user.createdAt!,
+        accountStatus: user.accountStatus,
+        statusReason: user.statusReason,
+        suspendedUntil: user.suspendedUntil,
         totalAdoptions: user.adopt.length,
         pendingAdoptions: user.adopt.filter(a => a.status === 'pending').length,
         approvedAdoptions: user.adopt.filter(a => a.status === 'approved').length,
         totalDonations: user.donations.length,
-        totalDonationAmount: user.donations.reduce((sum, d) => sum + Number(d.amount), 0)
+        totalDonationAmount: user.donations.reduce((sum, d) => sum + Number(d.amount), 0),
+        lock: await LoginThrottleService.getAccountLockState(user.email)
       };
 
       return { success: true, data: userWithStats };
@@ -158,9 +208,17 @@ export class AdminUserService {
         return { success: false, error: 'Un utilisateur avec cet email existe déjà' };
       }
 
-      // Générer un mot de passe par défaut si non fourni
-      const defaultPassword = userData.password || 'TempPassword123!';
-      const hashedPassword = await bcrypt.hash(defaultPassword, 10);
+      // Mot de passe fourni : soumis à la même politique que l'inscription
+      if (userData.password) {
+        const passwordValidation = PasswordPolicyService.validate(userData.password, userData);
+        if (!passwordValidation.valid) {
+          return { success: false, error: passwordValidation.message };
+        }
+      }
+
+      // Générer un mot de passe temporaire aléatoire si non fourni
+      const defaultPassword = userData.password || PasswordPolicyService.generateTemporaryPassword();
+      const hashedPassword = await AuthService.hashPassword(defaultPassword);
 
       // Créer l'utilisateur
       const newUser = await prisma.user.create({
@@ -185,6 +243,11 @@ export class AdminUserService {
 
       console.log('✅ Utilisateur créé avec succès:', newUser.id);
 
+      // Comme à l'inscription : l'email doit être vérifié avant de pouvoir déposer une demande d'adoption
+      await AuthService.sendVerificationEmail(newUser).catch(error => {
+        console.error('Erreur lors de l\'envoi de l\'email de vérification:', error);
+      });
+
       return { 
         success: true, 
         data: {
@@ -199,10 +262,16 @@ export class AdminUserService {
   }
 
   // Modifier un utilisateur
-  static async updateUser(userId: number, updateData: UpdateUserData): Promise<{ success: boolean; data?: any; error?: string }> {
+  static async updateUser(userId: number, updateData: UpdateUserData, actorId?: number, context: ClientContext = {}): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
       console.log('🔥 AdminUserService.updateUser appelé pour userId:', userId);
 
+      // Refuser tout champ hors liste blanche (statut, 2FA, mot de passe...)
+      const forbiddenFields = Object.keys(updateData).filter(field => !(UPDATABLE_USER_FIELDS as readonly string[]).includes(field));
+      if (forbiddenFields.length > 0) {
+        return { success: false, error: `Champ(s) non modifiable(s) : ${forbiddenFields.join(', ')}. Champs autorisés : ${UPDATABLE_USER_FIELDS.join(', ')}` };
+      }
+
       // Vérifier si l'utilisateur existe
       const existingUser = await prisma.user.findUnique({
         where: { id: userId }
@@ -212,24 +281,45 @@ export class AdminUserService {
         return { success: false, error: 'Utilisateur non trouvé' };
       }
 
-      // Si on change l'email, vérifier qu'il n'existe pas déjà
-      if (updateData.email && updateData.email !== existingUser.email) {
-        const emailExists = await prisma.user.findUnique({
-          where: { email: updateData.email }
-        });
+      const cleanUpdateData: any = {};
 
-        if (emailExists) {
-          return { success: false, error: 'Un utilisateur avec cet email existe déjà' };
+      if (updateData.firstname !== undefined) {
+        cleanUpdateData.firstname = updateData.firstname.trim();
+      }
+      if (updateData.lastname !== undefined) {
+        cleanUpdateData.lastname = updateData.lastname.trim();
+      }
+      if (updateData.phone !== undefined) {
+        cleanUpdateData.phone = updateData.phone?.trim() || null;
+      }
+      if (updateData.role !== undefined) {
+        cleanUpdateData.role = updateData.role;
+        // Changement de rôle : les access tokens en circulation sont invalidés
+        if (updateData.role !== existingUser.role) {
+          cleanUpdateData.tokenVersion = { increment: 1 };
+        }
+      }
+      if (updateData.email !== undefined) {
+        cleanUpdateData.email = updateData.email.trim().toLowerCase();
+
+        // Si on change l'email, vérifier qu'il n'existe pas déjà ; la nouvelle adresse doit être confirmée
+        if (cleanUpdateData.email !== existingUser.email) {
+          const emailExists = await prisma.user.findUnique({
+            where: { email: cleanUpdateData.email }
+          });
+
+          if (emailExists) {
+            return { success: false, error: 'Un utilisateur avec cet email existe déjà' };
+          }
+
+          cleanUpdateData.emailVerifiedAt = null;
         }
       }
 
       // Mettre à jour l'utilisateur
       const updatedUser = await prisma.user.update({
         where: { id: userId },
-        data: {
-          ...updateData,
-          phone: updateData.phone || null
-        },
+        data: cleanUpdateData,
         select: {
           id: true,
           firstname: true,
@@ -241,6 +331,32 @@ export class AdminUserService {
         }
       });
 
+      // Journaliser les changements sensibles (email, rôle) réalisés par l'admin
+      if (updatedUser.email !== existingUser.email) {
+        await AuthEventService.record({
+          type: 'email_change',
+          userId,
+          email: updatedUser.email,
+          actorId,
+          metadata: { from: existingUser.email, to: updatedUser.email },
+          ...context
+        });
+
+        await AuthService.sendVerificationEmail(updatedUser).catch(error => {
+          console.error('Erreur lors de l\'envoi de l\'email de vérification:', error);
+        });
+      }
+      if (updatedUser.role !== existingUser.role) {
+        await AuthEventService.record({
+          type: 'role_change',
+          userId,
+          email: updatedUser.email,
+          actorId,
+          metadata: { from: existingUser.role, to: updatedUser.role },
+          ...context
+        });
+      }
+
       console.log('✅ Utilisateur modifié avec succès:', userId);
 
       return { success: true, data: updatedUser };
@@ -251,7 +367,7 @@ export class AdminUserService {
   }
 
   // Supprimer un utilisateur
-  static async deleteUser(userId: number): Promise<{ success: boolean; error?: string }> {
+  static async deleteUser(userId: number, actorId?: number, context: ClientContext = {}): Promise<{ success: boolean; error?: string }> {
     try {
       console.log('🔥 AdminUserService.deleteUser appelé pour userId:', userId);
 
@@ -264,10 +380,13 @@ export class AdminUserService {
         return { success: false, error: 'Utilisateur non trouvé' };
       }
 
-      // Supprimer l'utilisateur (les relations seront supprimées en cascade)
-      await prisma.user.delete({
-        where: { id: userId }
-      });
+      if (existingUser.deletedAt) {
+        return { success: false, error: 'Ce compte a déjà été supprimé' };
+      }
+
+      // Anonymiser plutôt que supprimer : l'historique des adoptions et les dons sont conservés
+      await AccountService.anonymizeUser(userId);
+      await AuthEventService.record({ type: 'account_deletion', userId, actorId, reason: 'admin', ...context });
 
       console.log('✅ Utilisateur supprimé avec succès:', userId);
 
@@ -278,14 +397,121 @@ export class AdminUserService {
     }
   }
 
+  /*
+  Suspendre (temporairement, date de fin optionnelle) ou désactiver un compte
+  Toutes les sessions sont révoquées et les access tokens en circulation invalidés
+  */
+  static async suspendUser(userId: number, suspension: SuspendUserData, actorId?: number, context: ClientContext = {}): Promise<{ success: boolean; data?: any; error?: string }> {
+    try {
+      const existingUser = await prisma.user.findUnique({
+        where: { id: userId }
+      });
+
+      if (!existingUser || existingUser.deletedAt) {
+        return { success: false, error: 'Utilisateur non trouvé' };
+      }
+
+      if (suspension.until && suspension.until <= new Date()) {
+        return { success: false, error: 'La date de fin de suspension doit être dans le futur' };
+      }
+
+      const updatedUser = await prisma.user.update({
+        where: { id: userId },
+        data: {
+          accountStatus: suspension.status,
+          statusReason: suspension.reason,
+          // Une désactivation n'a pas de date de fin
+          suspendedUntil: suspension.status === 'suspended' ? suspension.until ?? null : null,
+          statusChangedAt: new Date(),
+          tokenVersion: { increment: 1 }
+        },
+        select: {
+          id: true,
+          email: true,
+          accountStatus: true,
+          statusReason: true,
+          suspendedUntil: true,
+          statusChangedAt: true
+        }
+      });
+
+      await SessionService.revokeAllForUser(userId, `account_${suspension.status}`);
+      await AuthEventService.record({
+        type: 'account_status_change',
+        userId,
+        email: updatedUser.email,
+        actorId,
+        reason: suspension.reason,
+        metadata: {
+          from: existingUser.accountStatus,
+          to: suspension.status,
+          until: updatedUser.suspendedUntil?.toISOString() ?? null
+        },
+        ...context
+      });
+
+      return { success: true, data: updatedUser };
+    } catch (error) {
+      console.error('❌ Erreur lors de la suspension de l\'utilisateur:', error);
+      return { success: false, error: 'Erreur lors de la suspension de l\'utilisateur' };
+    }
+  }
+
+  // Réactiver un compte suspendu ou désactivé
+  static async reactivateUser(userId: number, actorId?: number, context: ClientContext = {}): Promise<{ success: boolean; data?: any; error?: string }> {
+    try {
+      const existingUser = await prisma.user.findUnique({
+        where: { id: userId }
+      });
+
+      if (!existingUser || existingUser.deletedAt) {
+        return { success: false, error: 'Utilisateur non trouvé' };
+      }
+
+      if (existingUser.accountStatus === 'active') {
+        return { success: false, error: 'Ce compte est déjà actif' };
+      }
+
+      const updatedUser = await prisma.user.update({
+        where: { id: userId },
+        data: {
+          accountStatus: 'active',
+          statusReason: null,
+          suspendedUntil: null,
+          statusChangedAt: new Date()
+        },
+        select: {
+          id: true,
+          email: true,
+          accountStatus: true,
+          statusChangedAt: true
+        }
+      });
+
+      await AuthEventService.record({
+        type: 'account_status_change',
+        userId,
+        email: updatedUser.email,
+        actorId,
+        metadata: { from: existingUser.accountStatus, to: 'active' },
+        ...context
+      });
+
+      return { success: true, data: updatedUser };
+    } catch (error) {
+      console.error('❌ Erreur lors de la réactivation de l\'utilisateur:', error);
+      return { success: false, error: 'Erreur lors de la réactivation de l\'utilisateur' };
+    }
+  }
+
   // Changer le rôle d'un utilisateur
-  static async changeUserRole(userId: number, newRole: string): Promise<{ success: boolean; data?: any; error?: string }> {
+  static async changeUserRole(userId: number, newRole: string, actorId?: number, context: ClientContext = {}): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
       console.log('🔥 AdminUserService.changeUserRole appelé pour userId:', userId, 'nouveau rôle:', newRole);
 
       // Valider le rôle
-      if (!['user', 'admin'].includes(newRole)) {
-        return { success: false, error: 'Rôle invalide. Doit être "user" ou "admin"' };
+      if (!(await RoleService.roleExists(newRole))) {
+        return { success: false, error: `Rôle invalide: "${newRole}" n'existe pas` };
       }
 
       // Vérifier si l'utilisateur existe
@@ -300,7 +526,7 @@ export class AdminUserService {
       // Mettre à jour le rôle
       const updatedUser = await prisma.user.update({
         where: { id: userId },
-        data: { role: newRole },
+        data: { role: newRole, tokenVersion: { increment: 1 } },
         select: {
           id: true,
           firstname: true,
@@ -310,6 +536,15 @@ export class AdminUserService {
         }
       });
 
+      await AuthEventService.record({
+        type: 'role_change',
+        userId,
+        email: updatedUser.email,
+        actorId,
+        metadata: { from: existingUser.role, to: newRole },
+        ...context
+      });
+
       console.log('✅ Rôle utilisateur modifié avec succès:', userId, '→', newRole);
 
       return { success: true, data: updatedUser };
@@ -319,6 +554,29 @@ export class AdminUserService {
     }
   }
 
+  // Déverrouiller un compte bloqué après trop d'échecs de connexion
+  static async unlockUser(userId: number): Promise<{ success: boolean; error?: string }> {
+    try {
+      const existingUser = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { email: true }
+      });
+
+      if (!existingUser) {
+        return { success: false, error: 'Utilisateur non trouvé' };
+      }
+
+      await LoginThrottleService.unlockAccount(existingUser.email);
+
+      console.log('✅ Compte utilisateur déverrouillé:', userId);
+
+      return { success: true };
+    } catch (error) {
+      console.error('❌ Erreur lors du déverrouillage du compte:', error);
+      return { success: false, error: 'Erreur lors du déverrouillage du compte' };
+    }
+  }
+
   // Statistiques rapides des utilisateurs
   static async getUserStats(): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
@@ -327,7 +585,9 @@ export class AdminUserService {
         totalAdmins,
         totalRegularUsers,
         recentUsers,
-        activeUsers
+        activeUsers,
+        suspendedUsers,
+        deactivatedUsers
       ] = await Promise.all([
         prisma.user.count(),
         prisma.user.count({ where: { role: 'admin' } }),
@@ -346,7 +606,18 @@ export class AdminUserService {
               { donations: { some: {} } }
             ]
           }
-        })
+        }),
+        // Suspensions en cours uniquement (les suspensions échues ne bloquent plus)
+        prisma.user.count({
+          where: {
+            accountStatus: 'suspended',
+            OR: [
+              { suspendedUntil: null },
+              { suspendedUntil: { gt: new Date() } }
+            ]
+          }
+        }),
+        prisma.user.count({ where: { accountStatus: 'deactivated' } })
       ]);
 
       return {
@@ -356,7 +627,9 @@ export class AdminUserService {
           totalAdmins,
           totalRegularUsers,
           recentUsers, // Inscrits dans les 30 derniers jours
-          activeUsers  // Utilisateurs ayant fait au moins une action
+          activeUsers,  // Utilisateurs ayant fait au moins une action
+          suspendedUsers,
+          deactivatedUsers
         }
       };
     } catch (error) {
@@ -0,0 +1,106 @@
+import { PrismaClient } from '@prisma/client'
+import { AnimalPhotoService } from './animalphotoservice'
+import { PUBLIC_ANIMAL_OMIT } from './animalservice'
+import { AdopterQuestionnaire, cleanQuestionnaire, scoreCompatibility } from '../lib/adoptermatch'
+import { Page, PaginationOptions, PaginationParams } from '../lib/pagination'
+
+const prisma = new PrismaClient()
+
+// Classement par score uniquement (meilleures correspondances en premier par défaut)
+export const MATCH_PAGINATION: PaginationOptions<'score'> = {
+    sortFields: ['score'],
+    defaultSort: 'score',
+    defaultOrder: 'desc'
+}
+
+export class AdopterMatchService {
+
+    // Questionnaire de l'utilisateur, null s'il ne l'a pas encore rempli
+    static async getQuestionnaire(userId: number) {
+        return prisma.adopterProfile.findUnique({ where: { userId } })
+    }
+
+    // Créer ou remplacer le questionnaire (toutes les réponses sont requises)
+    static async saveQuestionnaire(userId: number, data: Partial<Record<keyof AdopterQuestionnaire, unknown>>) {
+        const questionnaire = cleanQuestionnaire(data)
+
+        return prisma.adopterProfile.upsert({
+            where: { userId },
+            create: { ...questionnaire, userId },
+            update: questionnaire
+        })
+    }
+
+    /*
+    Animaux disponibles classés par compatibilité avec le questionnaire de l'utilisateur
+    Tous les animaux disponibles sont notés (le score n'est pas une colonne), puis seule la page demandée est chargée
+    À score égal : animaux compatibles d'abord, puis les plus récents
+    */
+    static async getMatches(userId: number, params: PaginationParams<'score'>, options: { compatibleOnly?: boolean } = {}) {
+        if (params.cursor) {
+            throw new Error('Pagination invalide : "cursor" n\'est pas disponible pour les correspondances, utilisez "page"')
+        }
+
+        const questionnaire = await prisma.adopterProfile.findUnique({ where: { userId } })
+        if (!questionnaire) {
+            throw new Error('Questionnaire adoptant non trouvé : remplissez-le pour obtenir des suggestions')
+        }
+
+        const candidates = await prisma.animal.findMany({
+            where: { status: 'available' },
+            select: {
+                id: true,
+                createdAt: true,
+                goodWithChildren: true,
+                goodWithDogs: true,
+                goodWithCats: true,
+                energyLevel: true,
+                houseTrained: true,
+                needsGarden: true,
+                specialNeeds: true
+            }
+        })
+
+        const direction = params.order === 'asc' ? -1 : 1
+        const ranked = candidates
+            .map(animal => ({ animal, match: scoreCompatibility(questionnaire as AdopterQuestionnaire, animal) }))
+            .filter(({ match }) => !options.compatibleOnly || match.compatible)
+            .sort((a, b) => direction * (b.match.score - a.match.score)
+                || Number(b.match.compatible) - Number(a.match.compatible)
+                || (b.animal.createdAt?.getTime() ?? 0) - (a.animal.createdAt?.getTime() ?? 0)
+                || b.animal.id - a.animal.id)
+
+        const offset = (params.page - 1) * params.limit
+        const pageMatches = ranked.slice(offset, offset + params.limit)
+
+        const animals = await prisma.animal.findMany({
+            where: { id: { in: pageMatches.map(({ animal }) => animal.id) } },
+            omit: PUBLIC_ANIMAL_OMIT,
+            include: {
+                photos: { orderBy: AnimalPhotoService.DISPLAY_ORDER }
+            }
+        })
+        const animalsById = new Map(animals.map(animal => [animal.id, animal]))
+
+        const items = pageMatches.flatMap(({ animal, match }) => {
+            const details = animalsById.get(animal.id)
+            return details ? [{ ...AnimalPhotoService.withPhotoUrls(details), match }] : []
+        })
+
+        const page: Page<typeof items[number]> = {
+            items,
+            pagination: {
+                page: params.page,
+                limit: params.limit,
+                total: ranked.length,
+                totalPages: Math.ceil(ranked.length / params.limit),
+                hasNext: offset + params.limit < ranked.length,
+                nextCursor: null,
+                sort: params.sort,
+                order: params.order
+            }
+        }
+
+        return { questionnaire, ...page }
+    }
+}
@@ -0,0 +1,180 @@
+import { Prisma, PrismaClient } from '@prisma/client'
+import { AnimalPhotoService } from './animalphotoservice'
+
+const prisma = new PrismaClient()
+
+/*
+Provenance d'un animal
+- stray : errant, trouvé sur la voie publique
+- surrender : abandonné / cédé par son propriétaire
+- seizure : saisi (maltraitance, décision de justice, fourrière)
+- transfer : transféré depuis une autre structure
+*/
+export const ANIMAL_INTAKE_SOURCES = ['stray', 'surrender', 'seizure', 'transfer'] as const
+
+export type AnimalIntakeSource = typeof ANIMAL_INTAKE_SOURCES[number]
+
+export const ANIMAL_IDENTIFIER_TYPES = ['microchip', 'tattoo'] as const
+
+export type AnimalIdentifierType = typeof ANIMAL_IDENTIFIER_TYPES[number]
+
+// Date acceptée en chaîne ISO (corps JSON) ou en Date, date du jour par défaut
+export interface AnimalIntakeInput {
+    intakeDate?: string | Date
+    source: string
+    contactName?: string
+    contactPhone?: string
+    contactEmail?: string
+    locationFound?: string
+    notes?: string
+}
+
+export interface AnimalIdentification {
+    identifier: string
+    identifierType: AnimalIdentifierType
+}
+
+export class AnimalIntakeService {
+
+    /*
+    Normalise un numéro saisi ou lu sur une étiquette : "250 26 9812 345678" → "250269812345678"
+    Les espaces, tirets et points sont ignorés, les lettres passées en majuscules
+    */
+    static normalizeIdentifier(identifier: string): string {
+        return identifier.replace(/[\s.-]/g, '').toUpperCase()
+    }
+
+    /*
+    Valide un numéro de puce ou de tatouage
+    - Puce : 15 chiffres (norme ISO 11784), ou 10 caractères hexadécimaux pour les anciennes puces
+    - Tatouage : 3 à 10 lettres et chiffres
+    Sans type précisé, un numéro de 15 chiffres est considéré comme une puce, sinon le type est requis
+    */
+    static cleanIdentification(identifier: string, identifierType?: string | null): AnimalIdentification {
+        const normalized = this.normalizeIdentifier(identifier)
+        const type = identifierType || (/^\d{15}$/.test(normalized) ? 'microchip' : undefined)
+
+        if (!type) {
+            throw new Error(`Type d'identification requis pour ce numéro. Types autorisés: ${ANIMAL_IDENTIFIER_TYPES.join(', ')}`)
+        }
+        if (!(ANIMAL_IDENTIFIER_TYPES as readonly string[]).includes(type)) {
+            throw new Error(`Type d'identification invalide. Types autorisés: ${ANIMAL_IDENTIFIER_TYPES.join(', ')}`)
+        }
+
+        const valid = type === 'microchip'
+            ? /^\d{15}$/.test(normalized) || /^[0-9A-F]{10}$/.test(normalized)
+            : /^[A-Z0-9]{3,10}$/.test(normalized)
+        if (!valid) {
+            throw new Error(type === 'microchip'
+                ? 'Numéro de puce invalide (15 chiffres, ou 10 caractères pour les anciennes puces)'
+                : 'Numéro de tatouage invalide (3 à 10 lettres et chiffres)')
+        }
+
+        return { identifier: normalized, identifierType: type as AnimalIdentifierType }
+    }
+
+    // Vérifie qu'aucun autre animal ne porte déjà ce numéro
+    static async assertIdentifierAvailable(identifier: string, excludeAnimalId?: number) {
+        const existing = await prisma.animal.findUnique({
+            where: { identifier },
+            select: { id: true, name: true }
+        })
+        if (existing && existing.id !== excludeAnimalId) {
+            throw new Error(`Identifiant déjà enregistré pour l'animal #${existing.id} (${existing.name})`)
+        }
+    }
+
+    /*
+    Deux enregistrements simultanés du même numéro passent tous deux assertIdentifierAvailable :
+    le second échoue sur la contrainte d'unicité (P2002), convertie ici en la même erreur métier
+    */
+    static async rethrowIdentifierConflict(error: unknown, identifier: string | null | undefined, excludeAnimalId?: number): Promise<never> {
+        if (identifier
+            && error instanceof Prisma.PrismaClientKnownRequestError
+            && error.code === 'P2002'
+            && String(error.meta?.target ?? '').includes('identifier')) {
+            await this.assertIdentifierAvailable(identifier, excludeAnimalId)
+            throw new Error('Identifiant déjà enregistré pour un autre animal')
+        }
+        throw error
+    }
+
+    /*
+    Valide et nettoie la fiche d'arrivée
+    Un animal errant doit avoir un lieu de découverte, un abandon le nom de l'ancien propriétaire
+    */
+    static cleanIntake(data: AnimalIntakeInput) {
+        if (!data.source || !(ANIMAL_INTAKE_SOURCES as readonly string[]).includes(data.source)) {
+            throw new Error(`Provenance invalide. Provenances autorisées: ${ANIMAL_INTAKE_SOURCES.join(', ')}`)
+        }
+
+        const intakeDate = data.intakeDate ? new Date(data.intakeDate) : new Date()
+        if (isNaN(intakeDate.getTime())) {
+            throw new Error('Date d\'arrivée invalide')
+        }
+        if (intakeDate.getTime() > Date.now()) {
+            throw new Error('La date d\'arrivée ne peut pas être dans le futur')
+        }
+
+        const contactEmail = data.contactEmail?.trim().toLowerCase() || null
+        if (contactEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(contactEmail)) {
+            throw new Error('Email du contact invalide')
+        }
+
+        const cleanData = {
+            intakeDate,
+            source: data.source,
+            contactName: data.contactName?.trim().slice(0, 200) || null,
+            contactPhone: data.contactPhone?.trim().slice(0, 30) || null,
+            contactEmail,
+            locationFound: data.locationFound?.trim().slice(0, 255) || null,
+            notes: data.notes?.trim() || null
+        }
+
+        if (cleanData.source === 'stray' && !cleanData.locationFound) {
+            throw new Error('Le lieu de découverte (locationFound) est requis pour un animal errant')
+        }
+        if (cleanData.source === 'surrender' && !cleanData.contactName) {
+            throw new Error('Le nom de l\'ancien propriétaire (contactName) est requis pour un abandon')
+        }
+
+        return cleanData
+    }
+
+    // Enregistre la fiche d'arrivée d'un animal (dans la transaction de création de la fiche)
+    static async createIntake(animalId: number, data: AnimalIntakeInput, recordedById: number | undefined, tx: Prisma.TransactionClient = prisma) {
+        return tx.animalIntake.create({
+            data: {
+                ...this.cleanIntake(data),
+                animalId,
+                recordedById: recordedById ?? null
+            }
+        })
+    }
+
+    /*
+    Recherche d'un animal par son numéro de puce ou de tatouage (animal trouvé, appel d'un propriétaire...)
+    Retourne la fiche avec son statut, ses photos et son arrivée au refuge, ou null si le numéro est inconnu
+    */
+    static async findByIdentifier(identifier: string) {
+        const animal = await prisma.animal.findUnique({
+            where: { identifier: this.normalizeIdentifier(identifier) },
+            include: {
+                photos: { orderBy: AnimalPhotoService.DISPLAY_ORDER },
+                intake: true,
+                adopt: {
+                    where: { status: 'approved' },
+                    select: {
+                        id: true,
+                        firstname: true,
+                        lastname: true,
+                        phone: true,
+                        createdAt: true
+                    }
+                }
+            }
+        })
+
+        return animal ? AnimalPhotoService.withPhotoUrls(animal) : null
+    }
+}
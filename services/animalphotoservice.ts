@@ -0,0 +1,257 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { AnimalPhoto, PrismaClient } from '@prisma/client';
+import { StorageService } from './storageservice';
+
+const prisma = new PrismaClient()
+
+// Fichier reçu par l'upload multipart (sous-ensemble d'Express.Multer.File)
+export interface UploadedPhoto {
+    buffer: Buffer
+    mimetype: string
+    originalname: string
+}
+
+// Photo telle que renvoyée par l'API (URLs publiques à la place des clés de stockage)
+export interface PublicAnimalPhoto {
+    id: number
+    url: string
+    thumbnailUrl: string
+    width: number
+    height: number
+    position: number
+    isPrimary: boolean
+}
+
+export class AnimalPhotoService {
+    static readonly ALLOWED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp']
+    static readonly MAX_FILE_SIZE_BYTES = parseInt(process.env.ANIMAL_PHOTO_MAX_SIZE_MB || '8') * 1024 * 1024
+    static readonly MAX_PHOTOS_PER_ANIMAL = parseInt(process.env.ANIMAL_PHOTO_MAX_COUNT || '10')
+
+    // Dimensions maximales de l'image affichée et de la miniature (listes)
+    private static readonly MAX_DIMENSION = 1600
+    private static readonly THUMBNAIL_WIDTH = 400
+    private static readonly THUMBNAIL_HEIGHT = 300
+
+    // Ordre d'affichage : photo principale d'abord, puis par position
+    static readonly DISPLAY_ORDER = [{ isPrimary: 'desc' as const }, { position: 'asc' as const }, { id: 'asc' as const }]
+
+    static toPublic(photo: AnimalPhoto): PublicAnimalPhoto {
+        return {
+            id: photo.id,
+            url: StorageService.getUrl(photo.storageKey),
+            thumbnailUrl: StorageService.getUrl(photo.thumbnailKey),
+            width: photo.width,
+            height: photo.height,
+            position: photo.position,
+            isPrimary: photo.isPrimary
+        }
+    }
+
+    // Remplace les photos (clés de stockage) d'un animal par leurs URLs publiques
+    static withPhotoUrls<T extends { photos: AnimalPhoto[] }>(animal: T): Omit<T, 'photos'> & { photos: PublicAnimalPhoto[] } {
+        return { ...animal, photos: animal.photos.map(photo => this.toPublic(photo)) }
+    }
+
+    private static async getAnimalOrThrow(animalId: number) {
+        const animal = await prisma.animal.findUnique({ where: { id: animalId } })
+        if (!animal) {
+            throw new Error('Animal non trouvé')
+        }
+        return animal
+    }
+
+    private static async getPhotoOrThrow(animalId: number, photoId: number): Promise<AnimalPhoto> {
+        const photo = await prisma.animalPhoto.findFirst({ where: { id: photoId, animalId } })
+        if (!photo) {
+            throw new Error('Photo non trouvée')
+        }
+        return photo
+    }
+
+    /*
+    Redimensionne l'image (orientation EXIF appliquée, métadonnées supprimées) et génère sa miniature
+    Les deux versions sont converties en WebP
+    */
+    private static async processImage(file: UploadedPhoto) {
+        if (!this.ALLOWED_MIME_TYPES.includes(file.mimetype)) {
+            throw new Error(`Format d'image non supporté (${file.originalname}). Formats acceptés : JPEG, PNG, WebP`)
+        }
+
+        try {
+            const image = sharp(file.buffer).rotate()
+
+            const { data, info } = await image.clone()
+                .resize({ width: this.MAX_DIMENSION, height: this.MAX_DIMENSION, fit: 'inside', withoutEnlargement: true })
+                .webp({ quality: 82 })
+                .toBuffer({ resolveWithObject: true })
+
+            const thumbnail = await image.clone()
+                .resize({ width: this.THUMBNAIL_WIDTH, height: this.THUMBNAIL_HEIGHT, fit: 'cover' })
+                .webp({ quality: 75 })
+                .toBuffer()
+
+            return { data, thumbnail, width: info.width, height: info.height }
+        } catch (error) {
+            throw new Error(`Fichier image invalide (${file.originalname})`)
+        }
+    }
+
+    // Photos d'un animal dans l'ordre d'affichage
+    static async listPhotos(animalId: number): Promise<PublicAnimalPhoto[]> {
+        await this.getAnimalOrThrow(animalId)
+
+        const photos = await prisma.animalPhoto.findMany({
+            where: { animalId },
+            orderBy: this.DISPLAY_ORDER
+        })
+
+        return photos.map(photo => this.toPublic(photo))
+    }
+
+    /*
+    Ajoute des photos à un animal (ajoutées à la fin de l'ordre d'affichage)
+    La première photo d'un animal devient automatiquement sa photo principale
+    */
+    static async addPhotos(animalId: number, files: UploadedPhoto[]): Promise<PublicAnimalPhoto[]> {
+        await this.getAnimalOrThrow(animalId)
+
+        if (files.length === 0) {
+            throw new Error('Aucune photo reçue')
+        }
+
+        const existing = await prisma.animalPhoto.findMany({
+            where: { animalId },
+            select: { position: true, isPrimary: true }
+        })
+
+        if (existing.length + files.length > this.MAX_PHOTOS_PER_ANIMAL) {
+            throw new Error(`Nombre maximum de photos atteint (${this.MAX_PHOTOS_PER_ANIMAL} par animal)`)
+        }
+
+        // Traitement de toutes les images avant d'écrire quoi que ce soit
+        const processed = []
+        for (const file of files) {
+            processed.push(await this.processImage(file))
+        }
+
+        let nextPosition = existing.reduce((max, photo) => Math.max(max, photo.position + 1), 0)
+        let hasPrimary = existing.some(photo => photo.isPrimary)
+        const created: AnimalPhoto[] = []
+
+        for (const image of processed) {
+            const baseKey = `animals/${animalId}/${crypto.randomBytes(12).toString('hex')}`
+            const storageKey = `${baseKey}.webp`
+            const thumbnailKey = `${baseKey}_thumb.webp`
+
+            await StorageService.save(storageKey, image.data, 'image/webp')
+            await StorageService.save(thumbnailKey, image.thumbnail, 'image/webp')
+
+            try {
+                created.push(await prisma.animalPhoto.create({
+                    data: {
+                        animalId,
+                        storageKey,
+                        thumbnailKey,
+                        contentType: 'image/webp',
+                        width: image.width,
+                        height: image.height,
+                        size: image.data.length,
+                        position: nextPosition++,
+                        isPrimary: !hasPrimary
+                    }
+                }))
+                hasPrimary = true
+            } catch (error) {
+                await StorageService.deleteMany([storageKey, thumbnailKey])
+                throw error
+            }
+        }
+
+        return created.map(photo => this.toPublic(photo))
+    }
+
+    /*
+    Réordonne les photos d'un animal
+    photoIds doit contenir exactement toutes les photos de l'animal, dans le nouvel ordre
+    */
+    static async reorderPhotos(animalId: number, photoIds: number[]): Promise<PublicAnimalPhoto[]> {
+        await this.getAnimalOrThrow(animalId)
+
+        const photos = await prisma.animalPhoto.findMany({
+            where: { animalId },
+            select: { id: true }
+        })
+
+        const currentIds = photos.map(photo => photo.id).sort((a, b) => a - b)
+        const requestedIds = [...new Set(photoIds)].sort((a, b) => a - b)
+
+        if (photoIds.length !== currentIds.length || requestedIds.join(',') !== currentIds.join(',')) {
+            throw new Error('La liste doit contenir toutes les photos de l\'animal, une seule fois chacune')
+        }
+
+        await prisma.$transaction(
+            photoIds.map((photoId, position) => prisma.animalPhoto.update({
+                where: { id: photoId },
+                data: { position }
+            }))
+        )
+
+        return this.listPhotos(animalId)
+    }
+
+    // Définit la photo principale (une seule par animal)
+    static async setPrimaryPhoto(animalId: number, photoId: number): Promise<PublicAnimalPhoto[]> {
+        await this.getPhotoOrThrow(animalId, photoId)
+
+        await prisma.$transaction([
+            prisma.animalPhoto.updateMany({
+                where: { animalId, isPrimary: true },
+                data: { isPrimary: false }
+            }),
+            prisma.animalPhoto.update({
+                where: { id: photoId },
+                data: { isPrimary: true }
+            })
+        ])
+
+        return this.listPhotos(animalId)
+    }
+
+    /*
+    Supprime une photo et ses fichiers
+    Si c'était la photo principale, la suivante dans l'ordre d'affichage la remplace
+    */
+    static async deletePhoto(animalId: number, photoId: number): Promise<{ message: string }> {
+        const photo = await this.getPhotoOrThrow(animalId, photoId)
+
+        await prisma.animalPhoto.delete({ where: { id: photoId } })
+
+        if (photo.isPrimary) {
+            const next = await prisma.animalPhoto.findFirst({
+                where: { animalId },
+                orderBy: { position: 'asc' }
+            })
+            if (next) {
+                await prisma.animalPhoto.update({
+                    where: { id: next.id },
+                    data: { isPrimary: true }
+                })
+            }
+        }
+
+        await StorageService.deleteMany([photo.storageKey, photo.thumbnailKey])
+
+        return { message: 'Photo supprimée avec succès' }
+    }
+
+    // Clés de stockage de toutes les photos d'un animal (pour supprimer les fichiers avec l'animal)
+    static async getStorageKeys(animalId: number): Promise<string[]> {
+        const photos = await prisma.animalPhoto.findMany({
+            where: { animalId },
+            select: { storageKey: true, thumbnailKey: true }
+        })
+
+        return photos.flatMap(photo => [photo.storageKey, photo.thumbnailKey])
+    }
+}
@@ -0,0 +1,241 @@
+import { Prisma, PrismaClient } from '@prisma/client'
+import { Page, PaginationOptions, PaginationParams } from '../lib/pagination'
+import { AnimalBooleanTrait, AnimalTraitFilters } from '../lib/animaltraits'
+
+const prisma = new PrismaClient()
+
+/*
+Recherche plein texte des animaux (paramètre q de /animals/search)
+- Configuration PostgreSQL "fr_unaccent" : racinisation française + accents ignorés (extension unaccent)
+- Tolérance aux fautes de frappe : similarité trigramme (extension pg_trgm) sur le nom, la race et la ville
+- Poids : nom > race > ville > description
+*/
+
+export type AnimalSearchSort = 'relevance' | 'createdAt' | 'name' | 'age' | 'city' | 'type' | 'breed'
+
+// Tris autorisés avec une recherche texte (pertinence par défaut)
+export const ANIMAL_TEXT_SEARCH_PAGINATION: PaginationOptions<AnimalSearchSort> = {
+    sortFields: ['relevance', 'createdAt', 'name', 'age', 'city', 'type', 'breed'],
+    defaultSort: 'relevance',
+    defaultOrder: 'desc'
+}
+
+export interface AnimalTextSearchFilters extends AnimalTraitFilters {
+    q: string
+    type?: string
+    city?: string
+    breed?: string
+    minAge?: number
+    maxAge?: number
+    status?: string
+}
+
+// Extraits surlignés (<mark>...</mark>) des champs correspondant à la recherche
+export interface AnimalSearchHighlight {
+    name: string
+    breed: string
+    description: string | null
+}
+
+export interface AnimalSearchMatch {
+    id: number
+    rank: number
+    highlight: AnimalSearchHighlight
+}
+
+// Colonnes SQL des tris (liste blanche : jamais de nom de colonne venant de la requête)
+const SORT_COLUMNS: Record<Exclude<AnimalSearchSort, 'relevance'>, Prisma.Sql> = {
+    createdAt: Prisma.sql`created_at`,
+    name: Prisma.sql`name`,
+    age: Prisma.sql`age`,
+    city: Prisma.sql`city`,
+    type: Prisma.sql`type`,
+    breed: Prisma.sql`breed`
+}
+
+// Colonnes SQL des caractéristiques filtrables
+const TRAIT_COLUMNS: Record<AnimalBooleanTrait, Prisma.Sql> = {
+    goodWithChildren: Prisma.sql`a.good_with_children`,
+    goodWithDogs: Prisma.sql`a.good_with_dogs`,
+    goodWithCats: Prisma.sql`a.good_with_cats`,
+    houseTrained: Prisma.sql`a.house_trained`,
+    needsGarden: Prisma.sql`a.needs_garden`
+}
+
+export class AnimalSearchService {
+    // Similarité trigramme minimale pour qu'un mot mal orthographié corresponde (0 à 1)
+    private static readonly FUZZY_THRESHOLD = parseFloat(process.env.ANIMAL_SEARCH_FUZZY_THRESHOLD || '0.5')
+    // Les mots courts produisent trop de faux positifs en trigrammes
+    private static readonly FUZZY_MIN_WORD_LENGTH = 4
+    private static readonly HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+
+    /*
+    Crée la configuration de recherche "fr_unaccent" si elle n'existe pas (idempotent, appelé au démarrage)
+    Les extensions unaccent et pg_trgm sont déclarées dans schema.prisma
+    */
+    static async ensureSearchConfiguration(): Promise<void> {
+        await prisma.$executeRaw`
+            DO $$
+            BEGIN
+                IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'fr_unaccent') THEN
+                    CREATE TEXT SEARCH CONFIGURATION fr_unaccent (COPY = french);
+                    ALTER TEXT SEARCH CONFIGURATION fr_unaccent
+                        ALTER MAPPING FOR hword, hword_part, word WITH unaccent, french_stem;
+                END IF;
+            END
+            $$`
+    }
+
+    /*
+    Extrait surligné d'une colonne : le texte est échappé (HTML) avant l'ajout des balises <mark>
+    Le frontend peut donc afficher l'extrait tel quel
+    */
+    private static headline(column: Prisma.Sql): Prisma.Sql {
+        const escaped = Prisma.sql`replace(replace(replace(${column}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;')`
+        return Prisma.sql`ts_headline('fr_unaccent', ${escaped}, query, ${this.HEADLINE_OPTIONS})`
+    }
+
+    // Échappe les caractères spéciaux de LIKE (% et _) d'un filtre saisi par l'utilisateur
+    private static likePattern(value: string): string {
+        return `%${value.replace(/[\\%_]/g, char => `\\${char}`)}%`
+    }
+
+    // Filtres structurés (mêmes règles que AnimalService.searchAnimals)
+    private static buildFilters(filters: AnimalTextSearchFilters): Prisma.Sql {
+        const conditions: Prisma.Sql[] = [Prisma.sql`a.status = ${filters.status || 'available'}`]
+
+        if (filters.type) {
+            conditions.push(Prisma.sql`a.type ILIKE ${this.likePattern(filters.type)}`)
+        }
+        if (filters.city) {
+            conditions.push(Prisma.sql`a.city ILIKE ${this.likePattern(filters.city)}`)
+        }
+        if (filters.breed) {
+            conditions.push(Prisma.sql`a.breed ILIKE ${this.likePattern(filters.breed)}`)
+        }
+        if (filters.minAge !== undefined) {
+            conditions.push(Prisma.sql`a.age >= ${filters.minAge}`)
+        }
+        if (filters.maxAge !== undefined) {
+            conditions.push(Prisma.sql`a.age <= ${filters.maxAge}`)
+        }
+        for (const [trait, column] of Object.entries(TRAIT_COLUMNS) as [AnimalBooleanTrait, Prisma.Sql][]) {
+            if (filters[trait] !== undefined) {
+                conditions.push(Prisma.sql`${column} = ${filters[trait]}`)
+            }
+        }
+        if (filters.energyLevel) {
+            conditions.push(Prisma.sql`a.energy_level IN (${Prisma.join(filters.energyLevel)})`)
+        }
+        if (filters.size) {
+            conditions.push(Prisma.sql`a.size IN (${Prisma.join(filters.size)})`)
+        }
+        if (filters.specialNeeds !== undefined) {
+            conditions.push(filters.specialNeeds ? Prisma.sql`a.special_needs IS NOT NULL` : Prisma.sql`a.special_needs IS NULL`)
+        }
+
+        return Prisma.join(conditions, ' AND ')
+    }
+
+    /*
+    Animaux correspondant à la recherche, avec leur score de pertinence
+    Un animal correspond si au moins un terme est trouvé (plein texte) ou ressemble à son nom, sa race ou sa ville
+    Plus il y a de termes trouvés, meilleur est le score
+    */
+    private static buildMatches(filters: AnimalTextSearchFilters): Prisma.Sql {
+        // Termes reliés par OU : "labrador calme avec enfants" → labrador | calm | enfant ("avec" est un mot vide)
+        const query = Prisma.sql`replace(plainto_tsquery('fr_unaccent', ${filters.q})::text, '&', '|')::tsquery`
+
+        const document = Prisma.sql`(
+            setweight(to_tsvector('fr_unaccent', a.name), 'A') ||
+            setweight(to_tsvector('fr_unaccent', a.breed), 'B') ||
+            setweight(to_tsvector('fr_unaccent', a.city), 'C') ||
+            setweight(to_tsvector('fr_unaccent', coalesce(a.description, '')), 'D')
+        )`
+
+        const words = Array.from(new Set(filters.q.toLowerCase().split(/[^\p{L}\p{N}]+/u)))
+            .filter(word => word.length >= this.FUZZY_MIN_WORD_LENGTH)
+            .slice(0, 10)
+
+        const fuzzyScore = words.length > 0
+            ? Prisma.sql`GREATEST(${Prisma.join(words.map(word =>
+                Prisma.sql`word_similarity(unaccent(${word}), unaccent(lower(a.name || ' ' || a.breed || ' ' || a.city)))`
+            ))})`
+            : Prisma.sql`0`
+
+        return Prisma.sql`
+            WITH scored AS (
+                SELECT a.*, t.query,
+                    ts_rank_cd(t.document, t.query) AS text_rank,
+                    t.document @@ t.query AS text_match,
+                    ${fuzzyScore} AS fuzzy_score
+                FROM animals a
+                CROSS JOIN LATERAL (SELECT ${document} AS document, ${query} AS query) t
+                WHERE ${this.buildFilters(filters)}
+            ),
+            matches AS (
+                SELECT *,
+                    text_rank + CASE WHEN fuzzy_score >= ${this.FUZZY_THRESHOLD} THEN fuzzy_score * 0.5 ELSE 0 END AS rank
+                FROM scored
+                WHERE text_match OR fuzzy_score >= ${this.FUZZY_THRESHOLD}
+            )`
+    }
+
+    private static buildOrderBy(params: PaginationParams<AnimalSearchSort>): Prisma.Sql {
+        const direction = params.order === 'asc' ? Prisma.sql`ASC` : Prisma.sql`DESC`
+
+        if (params.sort === 'relevance') {
+            return Prisma.sql`rank ${direction}, created_at DESC, id DESC`
+        }
+        return Prisma.sql`${SORT_COLUMNS[params.sort]} ${direction}, id ${direction}`
+    }
+
+    /*
+    Page de résultats classés, avec les extraits surlignés
+    La pagination par curseur n'est pas disponible : l'ordre par pertinence n'est pas un champ de la table
+    */
+    static async search(filters: AnimalTextSearchFilters, params: PaginationParams<AnimalSearchSort>): Promise<Page<AnimalSearchMatch>> {
+        if (params.cursor) {
+            throw new Error('Pagination invalide : "cursor" n\'est pas disponible avec une recherche texte, utilisez "page"')
+        }
+
+        const matches = this.buildMatches(filters)
+
+        const [rows, countRows] = await Promise.all([
+            prisma.$queryRaw<{ id: number; rank: number; name_highlight: string; breed_highlight: string; description_highlight: string | null }[]>`
+                ${matches}
+                SELECT id, rank::float8 AS rank,
+                    ${this.headline(Prisma.sql`name`)} AS name_highlight,
+                    ${this.headline(Prisma.sql`breed`)} AS breed_highlight,
+                    CASE WHEN description IS NULL THEN NULL ELSE ${this.headline(Prisma.sql`description`)} END AS description_highlight
+                FROM matches
+                ORDER BY ${this.buildOrderBy(params)}
+                LIMIT ${params.limit + 1} OFFSET ${(params.page - 1) * params.limit}`,
+            prisma.$queryRaw<{ total: bigint }[]>`
+                ${matches}
+                SELECT count(*) AS total FROM matches`
+        ])
+
+        const total = Number(countRows[0]?.total ?? 0)
+        const hasNext = rows.length > params.limit
+        const items = rows.slice(0, params.limit).map(row => ({
+            id: row.id,
+            rank: row.rank,
+            highlight: { name: row.name_highlight, breed: row.breed_highlight, description: row.description_highlight }
+        }))
+
+        return {
+            items,
+            pagination: {
+                page: params.page,
+                limit: params.limit,
+                total,
+                totalPages: Math.ceil(total / params.limit),
+                hasNext,
+                nextCursor: null,
+                sort: params.sort,
+                order: params.order
+            }
+        }
+    }
+}
@@ -1,7 +1,30 @@
 import { PrismaClient } from '@prisma/client'
+import { AnimalPhotoService } from './animalphotoservice'
+import { StorageService } from './storageservice'
+import { AnimalSearchService, AnimalSearchSort, AnimalTextSearchFilters } from './animalsearchservice'
+import { MedicalRecordService } from './medicalrecordservice'
+import { AnimalStatusService, StatusChangeContext } from './animalstatusservice'
+import { AnimalIdentification, AnimalIntakeInput, AnimalIntakeService } from './animalintakeservice'
+import { INITIAL_ANIMAL_STATUSES } from '../lib/animalstatus'
+import { ANIMAL_BOOLEAN_TRAITS, AnimalTraitFilters, AnimalTraitsInput, cleanTraits } from '../lib/animaltraits'
+import { buildPage, PaginationOptions, PaginationParams, toPrismaArgs } from '../lib/pagination'
 
 const prisma = new PrismaClient()
 
+// Tris autorisés sur les listes d'animaux (publiques et admin)
+export const ANIMAL_PAGINATION: PaginationOptions<'createdAt' | 'name' | 'age' | 'city' | 'type' | 'breed'> = {
+    sortFields: ['createdAt', 'name', 'age', 'city', 'type', 'breed'],
+    defaultSort: 'createdAt',
+    defaultOrder: 'desc'
+}
+
+/*
+Champs jamais renvoyés sur les routes publiques
+identifier : le numéro de puce ou de tatouage permet de se faire passer pour le propriétaire d'un animal trouvé
+(le résumé de santé indique seulement si l'animal est identifié)
+*/
+export const PUBLIC_ANIMAL_OMIT = { identifier: true } as const
+
 export class AnimalService {
     
     // Créer un nouvel animal dans la base (pour les admins)
@@ -12,7 +35,12 @@ export class AnimalService {
         age: number
         breed: string
         description?: string
-    }) {
+        status?: string
+        identifier?: string
+        identifierType?: string
+        intake?: AnimalIntakeInput
+        traits?: AnimalTraitsInput
+    }, context: StatusChangeContext = {}) {
         
         // Validation des données obligatoires
         if (!animalData.type || !animalData.name || !animalData.city || !animalData.breed) {
@@ -23,78 +51,110 @@ export class AnimalService {
             throw new Error("L'âge de l'animal doit être supérieur à 0")
         }
 
-        // Créer l'animal avec le statut "available" par défaut
-        const animal = await prisma.animal.create({
-            data: {
-                type: animalData.type.trim(),
-                name: animalData.name.trim(),
-                city: animalData.city.trim(),
-                age: animalData.age,
-                breed: animalData.breed.trim(),
-                description: animalData.description?.trim() || null,
-                status: 'available'
+        // Statut initial : "available" par défaut, ou arrivée / quarantaine
+        const status = animalData.status || 'available'
+        AnimalStatusService.assertValidStatus(status)
+        if (!INITIAL_ANIMAL_STATUSES.includes(status)) {
+            throw new Error(`Statut initial invalide. Statuts autorisés à la création: ${INITIAL_ANIMAL_STATUSES.join(', ')}`)
+        }
+
+        // Puce ou tatouage : un même numéro ne peut être enregistré qu'une fois
+        let identification: AnimalIdentification | null = null
+        if (animalData.identifier?.trim()) {
+            identification = AnimalIntakeService.cleanIdentification(animalData.identifier, animalData.identifierType)
+            await AnimalIntakeService.assertIdentifierAvailable(identification.identifier)
+        }
+
+        const traits = cleanTraits(animalData.traits ?? {})
+
+        // Fiche d'arrivée validée avant toute écriture
+        if (animalData.intake) {
+            AnimalIntakeService.cleanIntake(animalData.intake)
+        }
+
+        // La fiche, son arrivée et le premier élément de son historique de statuts sont créés ensemble
+        const animal = await prisma.$transaction(async tx => {
+            const created = await tx.animal.create({
+                data: {
+                    type: animalData.type.trim(),
+                    name: animalData.name.trim(),
+                    city: animalData.city.trim(),
+                    age: animalData.age,
+                    breed: animalData.breed.trim(),
+                    description: animalData.description?.trim() || null,
+                    status,
+                    ...identification,
+                    ...traits
+                }
+            })
+
+            if (animalData.intake) {
+                await AnimalIntakeService.createIntake(created.id, animalData.intake, context.actorId, tx)
             }
-        })
+
+            await AnimalStatusService.recordInitialStatus(created.id, status, context, tx)
+
+            return created
+        }).catch(error => AnimalIntakeService.rethrowIdentifierConflict(error, identification?.identifier))
 
         return animal
     }
 
-    // Récupérer tous les animaux disponibles à l'adoption
-    static async getAvailableAnimals() {
-        const animals = await prisma.animal.findMany({
-            where: {
-                status: 'available'
-            },
-            orderBy: {
-                createdAt: 'desc' // Les plus récents en premier
-            }
-        })
-
-        return animals
+    // Récupérer une page des animaux disponibles à l'adoption (les plus récents en premier par défaut)
+    static async getAvailableAnimals(params: PaginationParams) {
+        const where = { status: 'available' }
+
+        const [animals, total] = await Promise.all([
+            prisma.animal.findMany({
+                where,
+                omit: PUBLIC_ANIMAL_OMIT,
+                include: {
+                    photos: { orderBy: AnimalPhotoService.DISPLAY_ORDER }
+                },
+                ...toPrismaArgs(params)
+            }),
+            prisma.animal.count({ where })
+        ])
+
+        const page = buildPage(animals, total, params)
+        return { ...page, items: page.items.map(animal => AnimalPhotoService.withPhotoUrls(animal)) }
     }
 
-    // Récupérer tous les animaux (pour les admins)
-    static async getAllAnimals() {
-        const animals = await prisma.animal.findMany({
-            include: {
-                adopt: {
-                    include: {
-                        users: {
-                            select: {
-                                id: true,
-                                firstname: true,
-                                lastname: true,
-                                email: true
+    // Récupérer une page de tous les animaux (pour les admins)
+    static async getAllAnimals(params: PaginationParams) {
+        const [animals, total] = await Promise.all([
+            prisma.animal.findMany({
+                include: {
+                    adopt: {
+                        include: {
+                            users: {
+                                select: {
+                                    id: true,
+                                    firstname: true,
+                                    lastname: true,
+                                    email: true
+                                }
                             }
                         }
                     }
-                }
-            },
-            orderBy: {
-                createdAt: 'desc'
-            }
-        })
+                },
+                ...toPrismaArgs(params)
+            }),
+            prisma.animal.count()
+        ])
 
-        return animals
+        return buildPage(animals, total, params)
     }
 
-    // Récupérer un animal par son ID
+    // Récupérer un animal par son ID (fiche publique : sans les demandes d'adoption ni leurs auteurs)
     static async getAnimalById(animalId: number) {
         const animal = await prisma.animal.findUnique({
             where: { id: animalId },
+            omit: PUBLIC_ANIMAL_OMIT,
             include: {
-                adopt: {
-                    include: {
-                        users: {
-                            select: {
-                                id: true,
-                                firstname: true,
-                                lastname: true,
-                                email: true,
-                                phone: true
-                            }
-                        }
-                    }
+                photos: { orderBy: AnimalPhotoService.DISPLAY_ORDER },
+                medicalRecords: {
+                    select: { type: true, title: true, performedAt: true, dueAt: true }
                 }
             }
         })
@@ -103,18 +163,29 @@ export class AnimalService {
             throw new Error('Animal non trouvé')
         }
 
-        return animal
+        // Seul le résumé de santé est public, le dossier détaillé reste réservé au personnel
+        const { medicalRecords, ...animalData } = animal
+        return {
+            ...AnimalPhotoService.withPhotoUrls(animalData),
+            medical: MedicalRecordService.buildSummary(medicalRecords, animal.identifierType)
+        }
     }
 
-    // Rechercher des animaux avec filtres
+    // Rechercher des animaux avec filtres (résultats paginés)
     static async searchAnimals(filters: {
+        q?: string
         type?: string
         city?: string
         breed?: string
         minAge?: number
         maxAge?: number
         status?: string
-    }) {
+    } & AnimalTraitFilters, params: PaginationParams) {
+
+        // Recherche texte libre : classement par pertinence et extraits surlignés
+        if (filters.q?.trim()) {
+            return this.searchAnimalsByText({ ...filters, q: filters.q.trim() }, params as PaginationParams<AnimalSearchSort>)
+        }
         
         // Construire les conditions de recherche
         const whereConditions: any = {}
@@ -150,17 +221,66 @@ export class AnimalService {
             }
         }
 
+        // Caractère et besoins : valeur exacte, les animaux non évalués sont exclus
+        for (const trait of ANIMAL_BOOLEAN_TRAITS) {
+            if (filters[trait] !== undefined) {
+                whereConditions[trait] = filters[trait]
+            }
+        }
+        if (filters.energyLevel) {
+            whereConditions.energyLevel = { in: filters.energyLevel }
+        }
+        if (filters.size) {
+            whereConditions.size = { in: filters.size }
+        }
+        if (filters.specialNeeds !== undefined) {
+            whereConditions.specialNeeds = filters.specialNeeds ? { not: null } : null
+        }
+
         // Par défaut, ne montrer que les animaux disponibles
         whereConditions.status = filters.status || 'available'
 
+        const [animals, total] = await Promise.all([
+            prisma.animal.findMany({
+                where: whereConditions,
+                omit: PUBLIC_ANIMAL_OMIT,
+                include: {
+                    photos: { orderBy: AnimalPhotoService.DISPLAY_ORDER }
+                },
+                ...toPrismaArgs(params)
+            }),
+            prisma.animal.count({ where: whereConditions })
+        ])
+
+        const page = buildPage(animals, total, params)
+        return { ...page, items: page.items.map(animal => AnimalPhotoService.withPhotoUrls(animal)) }
+    }
+
+    /*
+    Recherche texte (voir AnimalSearchService) puis chargement des animaux trouvés avec leurs photos
+    Chaque animal reçoit son score de pertinence et ses extraits surlignés (search.highlight)
+    */
+    private static async searchAnimalsByText(filters: AnimalTextSearchFilters, params: PaginationParams<AnimalSearchSort>) {
+        const page = await AnimalSearchService.search(filters, params)
+
         const animals = await prisma.animal.findMany({
-            where: whereConditions,
-            orderBy: {
-                createdAt: 'desc'
+            where: { id: { in: page.items.map(match => match.id) } },
+            omit: PUBLIC_ANIMAL_OMIT,
+            include: {
+                photos: { orderBy: AnimalPhotoService.DISPLAY_ORDER }
             }
         })
+        const animalsById = new Map(animals.map(animal => [animal.id, animal]))
+
+        // Conserver l'ordre de pertinence (un animal supprimé entre les deux requêtes est ignoré)
+        const items = page.items.flatMap(match => {
+            const animal = animalsById.get(match.id)
+            return animal
+                ? [{ ...AnimalPhotoService.withPhotoUrls(animal), search: { rank: match.rank, highlight: match.highlight } }]
+                : []
+        })
 
-        return animals
+        return { ...page, items }
     }
 
     // Mettre à jour les informations d'un animal
@@ -172,7 +292,10 @@ export class AnimalService {
         breed?: string
         description?: string
         status?: string
-    }) {
+        identifier?: string | null
+        identifierType?: string | null
+        traits?: AnimalTraitsInput
+    }, context: StatusChangeContext = {}) {
         
         // Vérifier que l'animal existe
         const existingAnimal = await prisma.animal.findUnique({
@@ -207,19 +330,34 @@ export class AnimalService {
         if (updateData.description !== undefined) {
             cleanUpdateData.description = updateData.description.trim() || null
         }
-        if (updateData.status !== undefined) {
-            // Valider les statuts autorisés
-            const validStatuses = ['available', 'adopted', 'pending']
-            if (!validStatuses.includes(updateData.status)) {
-                throw new Error(`Statut invalide. Statuts autorisés: ${validStatuses.join(', ')}`)
+        if (updateData.traits) {
+            Object.assign(cleanUpdateData, cleanTraits(updateData.traits))
+        }
+        if (updateData.identifier !== undefined) {
+            // Puce posée après l'arrivée, tatouage découvert... ou retrait d'un numéro erroné (null)
+            if (updateData.identifier === null || !updateData.identifier.trim()) {
+                cleanUpdateData.identifier = null
+                cleanUpdateData.identifierType = null
+            } else {
+                const identification = AnimalIntakeService.cleanIdentification(updateData.identifier, updateData.identifierType)
+                await AnimalIntakeService.assertIdentifierAvailable(identification.identifier, animalId)
+                Object.assign(cleanUpdateData, identification)
             }
-            cleanUpdateData.status = updateData.status
         }
 
-        const updatedAnimal = await prisma.animal.update({
-            where: { id: animalId },
-            data: cleanUpdateData
-        })
+        // Le statut passe par le cycle de vie (transition vérifiée et historisée), dans la même transaction
+        const statusChanged = updateData.status !== undefined && updateData.status !== existingAnimal.status
+
+        const updatedAnimal = await prisma.$transaction(async tx => {
+            if (statusChanged) {
+                await AnimalStatusService.changeStatus(animalId, updateData.status!, context, tx)
+            }
+
+            return tx.animal.update({
+                where: { id: animalId },
+                data: cleanUpdateData
+            })
+        }).catch(error => AnimalIntakeService.rethrowIdentifierConflict(error, cleanUpdateData.identifier, animalId))
 
         return updatedAnimal
     }
@@ -245,15 +383,20 @@ export class AnimalService {
             throw new Error('Impossible de supprimer un animal avec des demandes d\'adoption en cours')
         }
 
+        // Les photos sont supprimées en base par cascade, leurs fichiers ensuite
+        const photoKeys = await AnimalPhotoService.getStorageKeys(animalId)
+
         await prisma.animal.delete({
             where: { id: animalId }
         })
 
+        await StorageService.deleteMany(photoKeys)
+
         return { message: 'Animal supprimé avec succès' }
     }
 
     // Marquer un animal comme adopté
-    static async markAsAdopted(animalId: number) {
+    static async markAsAdopted(animalId: number, context: StatusChangeContext = {}) {
         
         const animal = await prisma.animal.findUnique({
             where: { id: animalId }
@@ -267,16 +410,11 @@ export class AnimalService {
             throw new Error('Cet animal est déjà adopté')
         }
 
-        const updatedAnimal = await prisma.animal.update({
-            where: { id: animalId },
-            data: { status: 'adopted' }
-        })
-
-        return updatedAnimal
+        return AnimalStatusService.changeStatus(animalId, 'adopted', context)
     }
 
     // Remettre un animal comme disponible
-    static async markAsAvailable(animalId: number) {
+    static async markAsAvailable(animalId: number, context: StatusChangeContext = {}) {
         
         const animal = await prisma.animal.findUnique({
             where: { id: animalId }
@@ -286,12 +424,11 @@ export class AnimalService {
             throw new Error('Animal non trouvé')
         }
 
-        const updatedAnimal = await prisma.animal.update({
-            where: { id: animalId },
-            data: { status: 'available' }
-        })
+        if (animal.status === 'available') {
+            throw new Error('Cet animal est déjà disponible')
+        }
 
-        return updatedAnimal
+        return AnimalStatusService.changeStatus(animalId, 'available', context)
     }
 
     // Obtenir les statistiques des animaux (pour le dashboard admin)
@@ -307,8 +444,16 @@ export class AnimalService {
             where: { status: 'adopted' }
         })
         
-        const pendingAnimals = await prisma.animal.count({
-            where: { status: 'pending' }
+        const reservedAnimals = await prisma.animal.count({
+            where: { status: 'reserved' }
+        })
+
+        // Répartition sur tout le cycle de vie (arrivée, quarantaine, accueil, soins...)
+        const animalsByStatus = await prisma.animal.groupBy({
+            by: ['status'],
+            _count: {
+                id: true
+            }
         })
 
         // Statistiques par type d'animal
@@ -337,7 +482,8 @@ export class AnimalService {
             total: totalAnimals,
             available: availableAnimals,
             adopted: adoptedAnimals,
-            pending: pendingAnimals,
+            reserved: reservedAnimals,
+            byStatus: animalsByStatus,
             byType: animalsByType,
             byCity: animalsByCity
         }
@@ -0,0 +1,140 @@
+import { Animal, Prisma, PrismaClient } from '@prisma/client'
+import { ANIMAL_STATUSES, ANIMAL_STATUS_TRANSITIONS, AnimalStatus, canTransition, isAnimalStatus, LEGACY_ANIMAL_STATUSES } from '../lib/animalstatus'
+
+const prisma = new PrismaClient()
+
+// Origine et motif d'un changement de statut (enregistrés dans l'historique)
+export interface StatusChangeContext {
+    actorId?: number
+    apiKeyId?: number
+    reason?: string
+}
+
+export class AnimalStatusService {
+
+    static assertValidStatus(status: string): asserts status is AnimalStatus {
+        if (!isAnimalStatus(status)) {
+            throw new Error(`Statut invalide. Statuts autorisés: ${ANIMAL_STATUSES.join(', ')}`)
+        }
+    }
+
+    private static historyData(animalId: number, fromStatus: string | null, toStatus: AnimalStatus, context: StatusChangeContext) {
+        return {
+            animalId,
+            fromStatus,
+            toStatus,
+            reason: context.reason?.trim().slice(0, 500) || null,
+            actorId: context.actorId ?? null,
+            apiKeyId: context.apiKeyId ?? null
+        }
+    }
+
+    /*
+    Change le statut d'un animal en respectant le cycle de vie (lib/animalstatus.ts) et l'historise
+    Seul point d'entrée pour modifier le statut : fiche animal, adoption approuvée ou rejetée...
+    Peut s'exécuter dans une transaction existante (tx), sinon en ouvre une
+    */
+    static async changeStatus(animalId: number, toStatus: string, context: StatusChangeContext = {}, tx?: Prisma.TransactionClient): Promise<Animal> {
+        if (!tx) {
+            return prisma.$transaction(transaction => this.changeStatus(animalId, toStatus, context, transaction))
+        }
+
+        this.assertValidStatus(toStatus)
+
+        const animal = await tx.animal.findUnique({ where: { id: animalId } })
+        if (!animal) {
+            throw new Error('Animal non trouvé')
+        }
+
+        if (animal.status === toStatus) {
+            throw new Error(`L'animal a déjà le statut "${toStatus}"`)
+        }
+
+        if (!canTransition(animal.status, toStatus)) {
+            const current = LEGACY_ANIMAL_STATUSES[animal.status] ?? animal.status
+            const allowed = isAnimalStatus(current) ? ANIMAL_STATUS_TRANSITIONS[current] : []
+            throw new Error(`Transition de statut impossible : ${animal.status} → ${toStatus}` +
+                (allowed.length > 0 ? ` (statuts possibles : ${allowed.join(', ')})` : ' (statut final)'))
+        }
+
+        // Mise à jour conditionnelle : deux changements simultanés ne peuvent pas partir du même statut
+        const updated = await tx.animal.updateMany({
+            where: { id: animalId, status: animal.status },
+            data: { status: toStatus }
+        })
+        if (updated.count === 0) {
+            throw new Error('Le statut de l\'animal a changé entre-temps, veuillez réessayer')
+        }
+
+        await tx.animalStatusChange.create({
+            data: this.historyData(animalId, animal.status, toStatus, context)
+        })
+
+        return tx.animal.findUniqueOrThrow({ where: { id: animalId } })
+    }
+
+    // Premier élément de l'historique, à la création de la fiche
+    static async recordInitialStatus(animalId: number, status: AnimalStatus, context: StatusChangeContext = {}, tx: Prisma.TransactionClient = prisma) {
+        await tx.animalStatusChange.create({
+            data: this.historyData(animalId, null, status, context)
+        })
+    }
+
+    // Historique des statuts d'un animal, le plus récent en premier, avec le nom de l'auteur
+    static async getHistory(animalId: number) {
+        const animal = await prisma.animal.findUnique({
+            where: { id: animalId },
+            select: { id: true, name: true, status: true }
+        })
+        if (!animal) {
+            throw new Error('Animal non trouvé')
+        }
+
+        const changes = await prisma.animalStatusChange.findMany({
+            where: { animalId },
+            orderBy: [{ createdAt: 'desc' }, { id: 'desc' }]
+        })
+
+        const actorIds = Array.from(new Set(changes.map(change => change.actorId).filter((id): id is number => id !== null)))
+        const actors = await prisma.user.findMany({
+            where: { id: { in: actorIds } },
+            select: { id: true, firstname: true, lastname: true }
+        })
+        const actorsById = new Map(actors.map(actor => [actor.id, actor]))
+
+        return {
+            animal,
+            allowedTransitions: isAnimalStatus(animal.status) ? ANIMAL_STATUS_TRANSITIONS[animal.status] : [],
+            history: changes.map(change => ({
+                ...change,
+                actor: change.actorId ? actorsById.get(change.actorId) ?? null : null
+            }))
+        }
+    }
+
+    /*
+    Convertit les anciens statuts (pending) vers le cycle de vie actuel (idempotent, appelé au démarrage)
+    La conversion est historisée comme un changement système
+    */
+    static async migrateLegacyStatuses(): Promise<void> {
+        for (const [legacyStatus, status] of Object.entries(LEGACY_ANIMAL_STATUSES)) {
+            const animals = await prisma.animal.findMany({
+                where: { status: legacyStatus },
+                select: { id: true }
+            })
+            if (animals.length === 0) continue
+
+            await prisma.$transaction([
+                prisma.animal.updateMany({
+                    where: { id: { in: animals.map(animal => animal.id) }, status: legacyStatus },
+                    data: { status }
+                }),
+                prisma.animalStatusChange.createMany({
+                    data: animals.map(animal => this.historyData(animal.id, legacyStatus, status, {
+                        reason: 'Conversion automatique vers le nouveau cycle de vie'
+                    }))
+                })
+            ])
+        }
+    }
+}
@@ -0,0 +1,210 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { AuthEventService, ClientContext } from './autheventservice';
+import { Permission } from './roleservice';
+import { buildPage, PaginationOptions, PaginationParams, toPrismaArgs } from '../lib/pagination';
+
+const prisma = new PrismaClient()
+
+// Permissions pouvant être accordées à une clé d'API (routes acceptant authOrApiKeyMiddleware)
+export const API_KEY_SCOPES: Permission[] = ['animals:read', 'animals:write']
+
+// Tris autorisés sur le journal des requêtes d'une clé
+export const API_KEY_REQUEST_PAGINATION: PaginationOptions<'createdAt' | 'statusCode' | 'path'> = {
+    sortFields: ['createdAt', 'statusCode', 'path'],
+    defaultSort: 'createdAt',
+    defaultOrder: 'desc',
+    defaultLimit: 50,
+    maxLimit: 200
+}
+
+export interface CreateApiKeyData {
+    name: string
+    scopes: string[]
+    expiresAt?: Date | null
+}
+
+// Clé d'API authentifiée, attachée à la requête par le middleware
+export interface ApiKeyPrincipal {
+    id: number
+    name: string
+    scopes: string[]
+}
+
+export interface ApiKeyRequestInfo extends ClientContext {
+    method: string
+    path: string
+    statusCode: number
+}
+
+// Champs renvoyés aux administrateurs (jamais le hash)
+const API_KEY_SELECT = {
+    id: true,
+    name: true,
+    prefix: true,
+    scopes: true,
+    createdById: true,
+    expiresAt: true,
+    lastUsedAt: true,
+    revokedAt: true,
+    createdAt: true
+} as const
+
+export class ApiKeyService {
+    // Intervalle minimum entre deux mises à jour de lastUsedAt (évite une écriture à chaque requête)
+    private static readonly LAST_USED_THROTTLE_MS = 60 * 1000
+
+    static hashKey(rawKey: string): string {
+        return crypto.createHash('sha256').update(rawKey).digest('hex')
+    }
+
+    /*
+    Crée une clé d'API nommée avec ses permissions
+    Format : ak_<préfixe>_<secret>. La clé en clair n'est retournée qu'une seule fois, seul son hash est stocké
+    */
+    static async createKey(data: CreateApiKeyData, actorId: number, context: ClientContext = {}) {
+        const name = data.name?.trim()
+        if (!name || name.length > 100) {
+            throw new Error('Nom de clé requis (100 caractères maximum)')
+        }
+
+        const scopes = Array.from(new Set(data.scopes || []))
+        const invalid = scopes.filter(scope => !API_KEY_SCOPES.includes(scope as Permission))
+        if (scopes.length === 0 || invalid.length > 0) {
+            throw new Error(`Permissions invalides pour une clé d'API (autorisées : ${API_KEY_SCOPES.join(', ')})`)
+        }
+
+        if (data.expiresAt && data.expiresAt <= new Date()) {
+            throw new Error('La date d\'expiration doit être dans le futur')
+        }
+
+        const prefix = `ak_${crypto.randomBytes(4).toString('hex')}`
+        const rawKey = `${prefix}_${crypto.randomBytes(32).toString('base64url')}`
+
+        const apiKey = await prisma.apiKey.create({
+            data: {
+                name,
+                prefix,
+                keyHash: this.hashKey(rawKey),
+                scopes,
+                createdById: actorId,
+                expiresAt: data.expiresAt ?? null
+            },
+            select: API_KEY_SELECT
+        })
+
+        await AuthEventService.record({
+            type: 'api_key_created',
+            userId: actorId,
+            actorId,
+            metadata: { apiKeyId: apiKey.id, name, prefix, scopes },
+            ...context
+        })
+
+        return { key: rawKey, apiKey }
+    }
+
+    // Toutes les clés, les plus récentes en premier, avec le nombre de requêtes journalisées
+    static async listKeys() {
+        return prisma.apiKey.findMany({
+            select: {
+                ...API_KEY_SELECT,
+                _count: { select: { requests: true } }
+            },
+            orderBy: { createdAt: 'desc' }
+        })
+    }
+
+    // Révoque une clé : elle est conservée (avec son journal) mais n'est plus acceptée
+    static async revokeKey(apiKeyId: number, actorId: number, context: ClientContext = {}) {
+        const existing = await prisma.apiKey.findUnique({ where: { id: apiKeyId } })
+        if (!existing) {
+            throw new Error('Clé d\'API non trouvée')
+        }
+        if (existing.revokedAt) {
+            throw new Error('Clé d\'API déjà révoquée')
+        }
+
+        const apiKey = await prisma.apiKey.update({
+            where: { id: apiKeyId },
+            data: { revokedAt: new Date() },
+            select: API_KEY_SELECT
+        })
+
+        await AuthEventService.record({
+            type: 'api_key_revoked',
+            userId: actorId,
+            actorId,
+            metadata: { apiKeyId, name: existing.name, prefix: existing.prefix },
+            ...context
+        })
+
+        return apiKey
+    }
+
+    /*
+    Vérifie une clé reçue dans le header X-API-Key
+    Retourne null si elle est inconnue, révoquée ou expirée
+    */
+    static async authenticate(rawKey: string): Promise<ApiKeyPrincipal | null> {
+        const apiKey = await prisma.apiKey.findUnique({
+            where: { keyHash: this.hashKey(rawKey) }
+        })
+
+        const now = new Date()
+        if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt < now)) {
+            return null
+        }
+
+        if (!apiKey.lastUsedAt || apiKey.lastUsedAt.getTime() < now.getTime() - this.LAST_USED_THROTTLE_MS) {
+            await prisma.apiKey.update({
+                where: { id: apiKey.id },
+                data: { lastUsedAt: now }
+            })
+        }
+
+        return { id: apiKey.id, name: apiKey.name, scopes: apiKey.scopes }
+    }
+
+    /*
+    Journalise une requête effectuée avec une clé
+    Ne lève jamais d'erreur : un problème de journalisation ne doit pas bloquer la requête
+    */
+    static async logRequest(apiKeyId: number, request: ApiKeyRequestInfo): Promise<void> {
+        try {
+            await prisma.apiKeyRequest.create({
+                data: {
+                    apiKeyId,
+                    method: request.method.slice(0, 10),
+                    path: request.path.slice(0, 500),
+                    statusCode: request.statusCode,
+                    ip: request.ip?.slice(0, 45),
+                    userAgent: request.userAgent?.slice(0, 500)
+                }
+            })
+        } catch (error) {
+            console.error('Erreur lors de la journalisation de la requête API:', error)
+        }
+    }
+
+    // Journal paginé des requêtes d'une clé (les plus récentes en premier par défaut)
+    static async getRequests(apiKeyId: number, params: PaginationParams) {
+        const apiKey = await prisma.apiKey.findUnique({
+            where: { id: apiKeyId },
+            select: API_KEY_SELECT
+        })
+        if (!apiKey) {
+            throw new Error('Clé d\'API non trouvée')
+        }
+
+        const [requests, total] = await Promise.all([
+            prisma.apiKeyRequest.findMany({
+                where: { apiKeyId },
+                ...toPrismaArgs(params)
+            }),
+            prisma.apiKeyRequest.count({ where: { apiKeyId } })
+        ])
+
+        return { apiKey, ...buildPage(requests, total, params) }
+    }
+}
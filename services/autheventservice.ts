@@ -0,0 +1,129 @@
+import { PrismaClient, Prisma } from '@prisma/client'
+import { buildPage, PaginationOptions, PaginationParams, toPrismaArgs } from '../lib/pagination'
+
+const prisma = new PrismaClient()
+
+export const AUTH_EVENT_TYPES = [
+    'register',
+    'login_success',
+    'login_failure',
+    'logout',
+    'role_change',
+    'email_change',
+    'password_change',
+    'password_reset_request',
+    'two_factor_change',
+    'data_export',
+    'account_deletion',
+    'account_status_change',
+    'impersonation_start',
+    'impersonation_end',
+    'identity_linked',
+    'magic_link_request',
+    'api_key_created',
+    'api_key_revoked'
+] as const
+
+export type AuthEventType = typeof AUTH_EVENT_TYPES[number]
+
+// Informations sur le client à l'origine de la requête (IP, navigateur)
+export interface ClientContext {
+    ip?: string
+    userAgent?: string
+}
+
+export interface AuthEventInput extends ClientContext {
+    type: AuthEventType
+    userId?: number | null
+    email?: string | null
+    reason?: string
+    actorId?: number
+    metadata?: Prisma.InputJsonValue
+}
+
+export interface AuthEventFilters {
+    userId?: number
+    ip?: string
+    type?: AuthEventType
+    from?: Date
+    to?: Date
+}
+
+// Tris autorisés sur le journal (les plus récents en premier par défaut)
+export const AUTH_EVENT_PAGINATION: PaginationOptions<'createdAt' | 'type'> = {
+    sortFields: ['createdAt', 'type'],
+    defaultSort: 'createdAt',
+    defaultOrder: 'desc',
+    defaultLimit: 50,
+    maxLimit: 200
+}
+
+export class AuthEventService {
+
+    /*
+    Enregistre un événement de sécurité
+    Ne lève jamais d'erreur : un problème de journalisation ne doit pas bloquer l'authentification
+    */
+    static async record(event: AuthEventInput): Promise<void> {
+        try {
+            await prisma.authEvent.create({
+                data: {
+                    type: event.type,
+                    userId: event.userId ?? null,
+                    email: event.email ?? null,
+                    reason: event.reason,
+                    actorId: event.actorId,
+                    ip: event.ip?.slice(0, 45),
+                    userAgent: event.userAgent?.slice(0, 500),
+                    metadata: event.metadata
+                }
+            })
+        } catch (error) {
+            console.error('Erreur lors de l\'enregistrement de l\'événement d\'authentification:', error)
+        }
+    }
+
+    // Recherche paginée dans le journal avec filtres (utilisateur, IP, type, période)
+    static async search(filters: AuthEventFilters, params: PaginationParams) {
+        const whereConditions: Prisma.AuthEventWhereInput = {}
+
+        if (filters.userId !== undefined) {
+            whereConditions.userId = filters.userId
+        }
+        if (filters.ip) {
+            whereConditions.ip = filters.ip
+        }
+        if (filters.type) {
+            whereConditions.type = filters.type
+        }
+        if (filters.from || filters.to) {
+            whereConditions.createdAt = {}
+            if (filters.from) {
+                whereConditions.createdAt.gte = filters.from
+            }
+            if (filters.to) {
+                whereConditions.createdAt.lte = filters.to
+            }
+        }
+
+        const [events, total] = await Promise.all([
+            prisma.authEvent.findMany({
+                where: whereConditions,
+                include: {
+                    user: {
+                        select: {
+                            id: true,
+                            firstname: true,
+                            lastname: true,
+                            email: true
+                        }
+                    }
+                },
+                ...toPrismaArgs(params)
+            }),
+            prisma.authEvent.count({ where: whereConditions })
+        ])
+
+        return buildPage(events, total, params)
+    }
+}
@@ -1,23 +1,30 @@
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
 import JWT, { SignOptions } from 'jsonwebtoken';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, User } from '@prisma/client';
+import { SessionService } from './sessionservice';
+import { UserTokenService } from './usertokenservice';
+import { MailService } from './mailservice';
+import { LoginThrottleService } from './loginthrottleservice';
+import { AuthEventService, ClientContext } from './autheventservice';
+import { TwoFactorService } from './twofactorservice';
+import { RoleService } from './roleservice';
+import { getAccountRestriction } from '../lib/accountstatus';
+import { PasswordPolicyContext, PasswordPolicyService, PasswordValidationResult } from './passwordpolicyservice';
 
 const prisma = new PrismaClient()
 
 export class AuthService {
-    private static readonly SALT_ROUNDS = 12 
+    private static readonly SALT_ROUNDS = parseInt(process.env.BCRYPT_SALT_ROUNDS || '12')
     private static readonly JWT_SECRET = process.env.JWT_SECRET || 'adalicious-fallback-secret'
-    private static readonly JWT_EXPIRES: string | number = process.env.JWT_EXPIRES_IN || '30d'
-
-      private static readonly ADMIN_EMAILS = [
-        'admin@adaopte.com', // ✅ Remplace par ton email
-        'manager@adaopte.com'
-    ];
-
-    // 🆕 AJOUTER ICI - Méthode pour déterminer le rôle
-    private static determineUserRole(email: string): 'admin' | 'user' {
-        return this.ADMIN_EMAILS.includes(email.toLowerCase()) ? 'admin' : 'user';
-    }
+    private static readonly JWT_EXPIRES: string | number = process.env.JWT_EXPIRES_IN || '15m'
+    private static readonly PASSWORD_RESET_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '30')
+    private static readonly EMAIL_VERIFICATION_TTL_MINUTES = parseInt(process.env.EMAIL_VERIFICATION_TTL_MINUTES || '1440')
+    private static readonly VERIFICATION_RESEND_COOLDOWN_SECONDS = 60
+    private static readonly VERIFICATION_MAX_PER_HOUR = 5
+    private static readonly MAGIC_LINK_TTL_MINUTES = parseInt(process.env.MAGIC_LINK_TTL_MINUTES || '15')
+    private static readonly TWO_FACTOR_CHALLENGE_EXPIRES = '5m'
+    private static readonly IMPERSONATION_TTL_MINUTES = parseInt(process.env.IMPERSONATION_TTL_MINUTES || '15')
 
     // Hache un mot de passe avec bcrypt pour le sécuriser avant stockage en base
     static async hashPassword(password: string): Promise<string> {
@@ -29,28 +36,187 @@ export class AuthService {
         return await bcrypt.compare(password, hash)
     }
 
-    // Génère un token JWT contenant les informations essentielles de l'utilisateur
-    static generateToken(userId: number, email: string, role: string = 'user'): string {
+    /*
+    Re-hache le mot de passe si le hash stocké a été créé avec un autre coût que SALT_ROUNDS
+    Appelé après une vérification réussie : c'est le seul moment où le mot de passe en clair est disponible
+    */
+    private static async rehashPasswordIfNeeded(userId: number, password: string, hash: string): Promise<void> {
+        try {
+            if (bcrypt.getRounds(hash) === this.SALT_ROUNDS) {
+                return
+            }
+
+            await prisma.user.update({
+                where: { id: userId },
+                data: { password: await this.hashPassword(password) }
+            })
+        } catch (error) {
+            console.error('Erreur lors de la mise à jour du hash du mot de passe:', error)
+        }
+    }
+
+    /*
+    Génère un access token JWT (courte durée) contenant les informations essentielles de l'utilisateur
+    sid : identifiant de la session, permet de révoquer le token côté serveur
+    tv : version des droits de l'utilisateur, le token est refusé dès qu'elle change
+    */
+    static generateToken(userId: number, email: string, role: string = 'user', sessionId: string, tokenVersion: number): string {
         const options: SignOptions = {
             expiresIn: this.JWT_EXPIRES as any
         }
         
         return JWT.sign(
-            { userId, email, role },
+            { userId, email, role, sid: sessionId, tv: tokenVersion },
             this.JWT_SECRET,
             options
         )
     }
 
     // Vérifie la validité d'un token JWT et extrait les données utilisateur
-    static verifyToken(token: string): { userId: number; email: string; role: string } | null {
+    static verifyToken(token: string): { userId: number; email: string; role: string; sid: string; tv: number; imp?: number } | null {
         try {
-            return JWT.verify(token, this.JWT_SECRET) as { userId: number; email: string; role: string }
+            return JWT.verify(token, this.JWT_SECRET) as { userId: number; email: string; role: string; sid: string; tv: number; imp?: number }
         } catch (error) {
             return null 
         }
     }
 
+    // Ouvre une session et retourne la paire access token + refresh token
+    static async issueTokens(user: { id: number; email: string; role: string | null; tokenVersion: number }, context: ClientContext = {}) {
+        const { sessionId, refreshToken } = await SessionService.createSession(user.id, context)
+        const token = this.generateToken(user.id, user.email, user.role || 'user', sessionId, user.tokenVersion)
+
+        return { token, refreshToken }
+    }
+
+    /*
+    Échange un refresh token contre une nouvelle paire de tokens (rotation)
+    Le rôle est relu en base pour que l'access token reflète l'état actuel de l'utilisateur
+    */
+    static async refreshTokens(refreshToken: string, context: ClientContext = {}) {
+        const rotated = await SessionService.rotateRefreshToken(refreshToken)
+        await SessionService.touchSession(rotated.sessionId, context)
+
+        const user = await prisma.user.findUnique({
+            where: { id: rotated.userId },
+            select: { id: true, email: true, role: true, tokenVersion: true }
+        })
+
+        if (!user) {
+            await SessionService.revokeSession(rotated.sessionId, 'user_not_found')
+            throw new Error('Refresh token invalide ou expiré')
+        }
+
+        const token = this.generateToken(user.id, user.email, user.role || 'user', rotated.sessionId, user.tokenVersion)
+
+        return { token, refreshToken: rotated.refreshToken }
+    }
+
+    // Déconnexion : révoque la session courante (access et refresh tokens associés)
+    static async logout(userId: number, sessionId: string, context: ClientContext = {}): Promise<void> {
+        await SessionService.revokeSession(sessionId, 'logout')
+        await AuthEventService.record({ type: 'logout', userId, ...context })
+    }
+
+    /*
+    Impersonation (support) : un admin obtient un token en lecture seule au nom d'un utilisateur
+    Le token porte la claim imp (ID de l'admin), expire vite et n'a pas de refresh token
+    Une seule impersonation active par admin : la précédente est terminée
+    */
+    static async startImpersonation(actorId: number, targetUserId: number, context: ClientContext = {}) {
+        if (actorId === targetUserId) {
+            throw new Error('Vous ne pouvez pas vous impersoner vous-même')
+        }
+
+        const target = await prisma.user.findUnique({
+            where: { id: targetUserId }
+        })
+
+        if (!target || target.deletedAt) {
+            throw new Error('Utilisateur non trouvé')
+        }
+
+        // Pas d'impersonation d'un membre du personnel : ce serait une élévation de privilèges détournée
+        if (await RoleService.isStaffRole(target.role)) {
+            throw new Error('Impossible d\'impersoner un compte disposant de permissions d\'administration')
+        }
+
+        const previous = await SessionService.listActiveImpersonations(actorId)
+        for (const session of previous) {
+            await SessionService.endImpersonation(actorId, session.id, 'impersonation_replaced')
+            await AuthEventService.record({ type: 'impersonation_end', userId: session.user.id, actorId, reason: 'replaced', metadata: { sessionId: session.id }, ...context })
+        }
+
+        const { sessionId, expiresAt } = await SessionService.createImpersonationSession(target.id, actorId, this.IMPERSONATION_TTL_MINUTES, context)
+
+        const token = JWT.sign(
+            { userId: target.id, email: target.email, role: target.role || 'user', sid: sessionId, tv: target.tokenVersion, imp: actorId },
+            this.JWT_SECRET,
+            { expiresIn: this.IMPERSONATION_TTL_MINUTES * 60 }
+        )
+
+        await AuthEventService.record({
+            type: 'impersonation_start',
+            userId: target.id,
+            email: target.email,
+            actorId,
+            metadata: { sessionId, expiresAt: expiresAt.toISOString() },
+            ...context
+        })
+
+        return {
+            token,
+            sessionId,
+            expiresAt,
+            readOnly: true,
+            user: {
+                id: target.id,
+                firstname: target.firstname,
+                lastname: target.lastname,
+                email: target.email
+            }
+        }
+    }
+
+    // Termine une impersonation ouverte par l'admin
+    static async stopImpersonation(actorId: number, sessionId: string, context: ClientContext = {}): Promise<void> {
+        const targetUserId = await SessionService.endImpersonation(actorId, sessionId, 'impersonation_ended')
+
+        if (targetUserId === null) {
+            throw new Error('Impersonation non trouvée ou déjà terminée')
+        }
+
+        await AuthEventService.record({ type: 'impersonation_end', userId: targetUserId, actorId, reason: 'stopped', metadata: { sessionId }, ...context })
+    }
+
+    // Sessions actives de l'utilisateur, la session de la requête en cours est signalée par current
+    static async listSessions(userId: number, currentSessionId: string) {
+        const sessions = await SessionService.listActiveSessions(userId)
+
+        return sessions.map(session => ({
+            ...session,
+            current: session.id === currentSessionId
+        }))
+    }
+
+    // Déconnecte un appareil précis depuis la liste des sessions
+    static async revokeSession(userId: number, sessionId: string, context: ClientContext = {}): Promise<void> {
+        const revoked = await SessionService.revokeUserSession(userId, sessionId, 'revoked_by_user')
+
+        if (!revoked) {
+            throw new Error('Session non trouvée')
+        }
+
+        await AuthEventService.record({ type: 'logout', userId, reason: 'session_revoked', metadata: { sessionId }, ...context })
+    }
+
+    // Déconnexion de tous les appareils, y compris la session courante
+    static async logoutEverywhere(userId: number, context: ClientContext = {}): Promise<number> {
+        const count = await SessionService.revokeAllForUser(userId, 'logout_everywhere')
+        await AuthEventService.record({ type: 'logout', userId, reason: 'logout_everywhere', metadata: { sessions: count }, ...context })
+        return count
+    }
+
     // Inscription d'un nouvel utilisateur sur la plateforme d'adoption
     static async register(userData: {
         firstname: string 
@@ -58,7 +224,7 @@ export class AuthService {
         email: string
         password: string
         phone?: string
-    }) {
+    }, context: ClientContext = {}) {
         
         // Vérifier si l'email existe déjà dans notre base de données
         const existingUser = await prisma.user.findUnique({
@@ -68,12 +234,12 @@ export class AuthService {
         if (existingUser) {
             throw new Error("Un utilisateur avec cet email existe déjà")
         }
+
+        PasswordPolicyService.assertValid(userData.password, userData)
         
         // Hasher le mot de passe pour la sécurité avant de le stocker
         const hashedPassword = await this.hashPassword(userData.password)
 
-        const role = this.determineUserRole(userData.email); 
-
         // Créer le nouvel utilisateur dans la table user
         const user = await prisma.user.create({
             data: {
@@ -82,12 +248,19 @@ export class AuthService {
                 email: userData.email,
                 password: hashedPassword, // ✅ Utilise le hash, pas le mot de passe en clair
                 phone: userData.phone,
-                role: role // Tous les nouveaux utilisateurs sont des utilisateurs normaux
+                role: 'user' // Tous les nouveaux utilisateurs sont des utilisateurs normaux (rôles gérés par les admins)
             }
         })
 
-        // Générer le token JWT pour authentifier automatiquement l'utilisateur
-        const token = this.generateToken(user.id, user.email, user.role || 'user')
+        await AuthEventService.record({ type: 'register', userId: user.id, email: user.email, ...context })
+
+        // Envoyer le lien de confirmation de l'adresse email (un échec d'envoi ne bloque pas l'inscription)
+        await this.sendVerificationEmail(user).catch(error => {
+            console.error('Erreur lors de l\'envoi de l\'email de vérification:', error)
+        })
+
+        // Générer les tokens pour authentifier automatiquement l'utilisateur
+        const { token, refreshToken } = await this.issueTokens(user, context)
 
         // Retourner les données utilisateur (sans le mot de passe) + token 
         return {
@@ -98,22 +271,34 @@ export class AuthService {
                 email: user.email,
                 phone: user.phone,
                 role: user.role,
+                emailVerified: false,
                 createdAt: user.createdAt 
             },
-            token 
+            token,
+            refreshToken
         }
     }
 
     /* 
     Connexion d'un utilisateur existant
-    Gère : vérification email, vérification mot de passe et génération token
+    Gère : limitation des tentatives, vérification email, vérification mot de passe et génération token
     */
-    static async login(email: string, password: string) {
+    static async login(email: string, password: string, context: ClientContext = {}) {
+        // Refuse la tentative si le compte ou l'IP est verrouillé / en délai progressif
+        try {
+            await LoginThrottleService.assertCanAttempt(email, context.ip)
+        } catch (error) {
+            await AuthEventService.record({ type: 'login_failure', email, reason: 'throttled', ...context })
+            throw error
+        }
+
         const user = await prisma.user.findUnique({
             where: { email }
         })
 
         if (!user) {
+            await LoginThrottleService.recordFailure(email, context.ip)
+            await AuthEventService.record({ type: 'login_failure', email, reason: 'unknown_email', ...context })
             throw new Error('Email ou mot de passe incorrect')
         }
 
@@ -121,28 +306,68 @@ export class AuthService {
         const isPasswordValid = await this.comparePassword(password, user.password)
         
         if (!isPasswordValid) {
+            await LoginThrottleService.recordFailure(email, context.ip)
+            await AuthEventService.record({ type: 'login_failure', userId: user.id, email, reason: 'invalid_password', ...context })
             throw new Error('Email ou mot de passe incorrect')
         }
 
-          //  Vérifier et mettre à jour le rôle si nécessaire
-        const expectedRole = this.determineUserRole(email);
-        let finalRole = user.role || 'user';
+        await LoginThrottleService.recordSuccess(email)
+        await this.rehashPasswordIfNeeded(user.id, password, user.password)
+        await this.assertAccountUsable(user, context)
 
-        if (expectedRole !== user.role) {
-            // Mettre à jour le rôle en base
-            await prisma.user.update({
-                where: { id: user.id },
-                data: { role: expectedRole }
-            });
-            finalRole = expectedRole;
-            console.log(`🔄 Rôle mis à jour pour ${email}: ${finalRole}`);
+        // 2FA activée : pas de tokens tant que le second facteur n'est pas vérifié
+        if (user.twoFactorEnabledAt) {
+            return {
+                twoFactorRequired: true,
+                challengeToken: this.generateTwoFactorChallenge(user.id)
+            }
+        }
+
+        return this.completeLogin(user, context)
+    }
+
+    // Refuse la connexion d'un compte suspendu ou désactivé (après vérification du mot de passe : pas de fuite d'information)
+    private static async assertAccountUsable(user: {
+        id: number
+        email: string
+        accountStatus: string
+        statusReason: string | null
+        suspendedUntil: Date | null
+    }, context: ClientContext): Promise<void> {
+        const restriction = getAccountRestriction(user)
+
+        if (restriction) {
+            await AuthEventService.record({ type: 'login_failure', userId: user.id, email: user.email, reason: `account_${user.accountStatus}`, ...context })
+            throw new Error(restriction)
         }
+    }
+
+    /*
+    Fin de connexion commune à tous les modes d'authentification
+    Génère les tokens, journalise la connexion et retourne les données utilisateur (sans le mdp)
+    */
+    private static async completeLogin(user: {
+        id: number
+        firstname: string
+        lastname: string
+        email: string
+        phone: string | null
+        role: string | null
+        emailVerifiedAt: Date | null
+        twoFactorEnabledAt: Date | null
+        tokenVersion: number
+        createdAt: Date | null
+    }, context: ClientContext, method?: string) {
+        // Génère les tokens pour authentifier la session utilisateur
+        const { token, refreshToken } = await this.issueTokens(user, context)
 
+        await AuthEventService.record({ type: 'login_success', userId: user.id, email: user.email, reason: method, ...context })
 
-        // Génère le token pour authentifier la session utilisateur
-        const token = this.generateToken(user.id, user.email, user.role || 'user')
+        // Le personnel sans 2FA doit l'activer avant d'accéder aux fonctions d'administration
+        const twoFactorSetupRequired = !user.twoFactorEnabledAt
+            && TwoFactorService.isRequiredForStaff()
+            && await RoleService.isStaffRole(user.role)
 
-        // Retourne les données utilisateur (sans le mdp) + token 
         return {
             user: {
                 id: user.id,
@@ -151,10 +376,196 @@ export class AuthService {
                 email: user.email,
                 phone: user.phone,
                 role: user.role,
+                emailVerified: !!user.emailVerifiedAt,
+                twoFactorEnabled: !!user.twoFactorEnabledAt,
                 createdAt: user.createdAt
             },
-            token
+            token,
+            refreshToken,
+            twoFactorSetupRequired
+        }
+    }
+
+    /*
+    Première preuve de possession de l'email d'un compte jamais vérifié (OIDC, lien magique)
+    Le compte a pu être créé par un tiers avec cette adresse (pré-détournement) : tout ce qu'il a pu définir est annulé
+    - mot de passe remplacé par une valeur aléatoire inutilisable ("mot de passe oublié" pour en choisir un)
+    - 2FA, codes de secours et tokens en attente supprimés
+    - access tokens invalidés (tokenVersion) et sessions révoquées
+    */
+    static async claimUnverifiedAccount(user: User, method: string, context: ClientContext = {}): Promise<User> {
+        const unusablePassword = await this.hashPassword(crypto.randomBytes(32).toString('hex'))
+
+        const [, , claimedUser] = await prisma.$transaction([
+            prisma.recoveryCode.deleteMany({ where: { userId: user.id } }),
+            prisma.userToken.deleteMany({ where: { userId: user.id, usedAt: null } }),
+            prisma.user.update({
+                where: { id: user.id },
+                data: {
+                    emailVerifiedAt: new Date(),
+                    password: unusablePassword,
+                    twoFactorSecret: null,
+                    twoFactorEnabledAt: null,
+                    twoFactorLastCounter: null,
+                    tokenVersion: { increment: 1 }
+                }
+            })
+        ])
+
+        await SessionService.revokeAllForUser(user.id, 'account_claimed')
+        await AuthEventService.record({
+            type: 'password_change',
+            userId: user.id,
+            email: user.email,
+            reason: 'account_claimed',
+            metadata: { method },
+            ...context
+        })
+
+        return claimedUser
+    }
+
+    /*
+    Connexion sans mot de passe (OIDC, lien magique), une fois l'identité vérifiée
+    Mêmes règles que la connexion par mot de passe : compte suspendu refusé, 2FA exigée si activée
+    */
+    static async loginWithExternalIdentity(user: User, method: string, context: ClientContext = {}) {
+        await this.assertAccountUsable(user, context)
+
+        if (user.twoFactorEnabledAt) {
+            return {
+                twoFactorRequired: true,
+                challengeToken: this.generateTwoFactorChallenge(user.id)
+            }
+        }
+
+        return this.completeLogin(user, context, method)
+    }
+
+    // Token intermédiaire (5 min) prouvant que le mot de passe a été vérifié, en attente du code 2FA
+    private static generateTwoFactorChallenge(userId: number): string {
+        return JWT.sign(
+            { userId, purpose: 'two_factor' },
+            this.JWT_SECRET,
+            { expiresIn: this.TWO_FACTOR_CHALLENGE_EXPIRES }
+        )
+    }
+
+    /*
+    Deuxième étape de connexion quand la 2FA est activée
+    Accepte un code TOTP ou un code de secours ; un échec compte comme une tentative ratée
+    */
+    static async completeTwoFactorLogin(challengeToken: string, code: string, context: ClientContext = {}) {
+        let payload: { userId: number; purpose?: string }
+        try {
+            payload = JWT.verify(challengeToken, this.JWT_SECRET) as { userId: number; purpose?: string }
+        } catch (error) {
+            throw new Error('Session de connexion invalide ou expirée, veuillez vous reconnecter')
+        }
+
+        if (payload.purpose !== 'two_factor') {
+            throw new Error('Session de connexion invalide ou expirée, veuillez vous reconnecter')
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { id: payload.userId }
+        })
+
+        if (!user) {
+            throw new Error('Session de connexion invalide ou expirée, veuillez vous reconnecter')
+        }
+
+        try {
+            await LoginThrottleService.assertCanAttempt(user.email, context.ip)
+        } catch (error) {
+            await AuthEventService.record({ type: 'login_failure', userId: user.id, email: user.email, reason: 'throttled', ...context })
+            throw error
+        }
+
+        const result = await TwoFactorService.verify(user.id, code)
+
+        if (!result.valid) {
+            await LoginThrottleService.recordFailure(user.email, context.ip)
+            await AuthEventService.record({ type: 'login_failure', userId: user.id, email: user.email, reason: 'invalid_2fa_code', ...context })
+            throw new Error('Code de double authentification incorrect')
+        }
+
+        await LoginThrottleService.recordSuccess(user.email)
+        await this.assertAccountUsable(user, context)
+
+        if (result.method === 'recovery_code') {
+            await AuthEventService.record({ type: 'two_factor_change', userId: user.id, email: user.email, reason: 'recovery_code_used', ...context })
+        }
+
+        return this.completeLogin(user, context)
+    }
+
+    // Confirme l'activation de la 2FA et retourne les codes de secours
+    static async enableTwoFactor(userId: number, code: string, context: ClientContext = {}): Promise<string[]> {
+        const recoveryCodes = await TwoFactorService.confirmEnrollment(userId, code)
+        await AuthEventService.record({ type: 'two_factor_change', userId, reason: 'enabled', ...context })
+        return recoveryCodes
+    }
+
+    // Régénère les codes de secours après vérification d'un second facteur
+    static async regenerateRecoveryCodes(userId: number, code: string, context: ClientContext = {}): Promise<string[]> {
+        const result = await TwoFactorService.verify(userId, code)
+        if (!result.valid) {
+            throw new Error('Code de double authentification incorrect')
+        }
+
+        const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(userId)
+        await AuthEventService.record({ type: 'two_factor_change', userId, reason: 'recovery_codes_regenerated', ...context })
+        return recoveryCodes
+    }
+
+    /*
+    Désactive la 2FA : exige le mot de passe et un second facteur valide
+    Refusé si la politique impose la 2FA pour le rôle de l'utilisateur
+    */
+    static async disableTwoFactor(userId: number, password: string, code: string, context: ClientContext = {}): Promise<void> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId }
+        })
+
+        if (!user) {
+            throw new Error('Utilisateur non trouvé')
+        }
+
+        if (!user.twoFactorEnabledAt) {
+            throw new Error('La double authentification n\'est pas activée')
+        }
+
+        if (TwoFactorService.isRequiredForStaff() && await RoleService.isStaffRole(user.role)) {
+            throw new Error('La double authentification est obligatoire pour votre rôle')
+        }
+
+        const isPasswordValid = await this.comparePassword(password, user.password)
+        if (!isPasswordValid) {
+            throw new Error('Mot de passe incorrect')
+        }
+
+        const result = await TwoFactorService.verify(userId, code)
+        if (!result.valid) {
+            throw new Error('Code de double authentification incorrect')
+        }
+
+        await TwoFactorService.disable(userId)
+        await AuthEventService.record({ type: 'two_factor_change', userId, reason: 'disabled', ...context })
+    }
+
+    // Rôle et état 2FA de l'utilisateur, utilisés par le middleware de permissions
+    static async getUserSecurityState(userId: number): Promise<{ role: string | null; twoFactorEnabled: boolean } | null> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { role: true, twoFactorEnabledAt: true }
+        })
+
+        if (!user) {
+            return null
         }
+
+        return { role: user.role, twoFactorEnabled: !!user.twoFactorEnabledAt }
     }
 
     /*
@@ -171,6 +582,7 @@ export class AuthService {
                 email: true,
                 phone: true,
                 role: true,
+                emailVerifiedAt: true,
                 createdAt: true,
                 adopt: {
                     include: {
@@ -210,7 +622,7 @@ export class AuthService {
     lastname?: string
     email?: string
     phone?: string
-   }) {
+   }, context: ClientContext = {}) {
     const existingUser = await prisma.user.findUnique({
         where: { id: userId }
     })
@@ -241,6 +653,11 @@ export class AuthService {
     }
     if (updateData.email !== undefined) {
         cleanUpdateData.email = updateData.email.trim().toLowerCase()
+
+        // Une nouvelle adresse doit être confirmée à nouveau
+        if (cleanUpdateData.email !== existingUser.email) {
+            cleanUpdateData.emailVerifiedAt = null
+        }
     } 
     if (updateData.phone !== undefined) {
         // Si phone est une chaîne vide, le mettre à null pour permettre la suppression
@@ -257,14 +674,255 @@ export class AuthService {
             email: true,
             phone: true,
             role: true,
+            emailVerifiedAt: true,
             createdAt: true
             // password volontairement exclu pour la sécurité
         }
     })
 
+    if (cleanUpdateData.emailVerifiedAt === null) {
+        await AuthEventService.record({
+            type: 'email_change',
+            userId,
+            email: updatedUser.email,
+            metadata: { from: existingUser.email, to: updatedUser.email },
+            ...context
+        })
+
+        await this.sendVerificationEmail(updatedUser).catch(error => {
+            console.error('Erreur lors de l\'envoi de l\'email de vérification:', error)
+        })
+    }
+
     return updatedUser
    }
 
+   /*
+   Demande de lien de connexion sans mot de passe
+   Ne révèle jamais si l'email existe ; limitée comme les renvois d'email (délai + plafond horaire)
+   Aucun lien n'est envoyé à un compte suspendu ou désactivé
+   */
+   static async requestMagicLink(email: string, context: ClientContext = {}): Promise<void> {
+    await LoginThrottleService.assertCanAttempt(email, context.ip)
+
+    const user = await prisma.user.findUnique({
+        where: { email }
+    })
+
+    await AuthEventService.record({ type: 'magic_link_request', userId: user?.id, email, ...context })
+
+    if (!user || getAccountRestriction(user)) {
+        return
+    }
+
+    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000)
+    const { lastSentAt, count } = await UserTokenService.getRecentTokenActivity(user.id, 'magic_link', oneHourAgo)
+
+    const cooldownEnd = lastSentAt ? lastSentAt.getTime() + this.VERIFICATION_RESEND_COOLDOWN_SECONDS * 1000 : 0
+    if (cooldownEnd > Date.now() || count >= this.VERIFICATION_MAX_PER_HOUR) {
+        return
+    }
+
+    // Un échec d'envoi n'est pas remonté : la réponse doit rester identique à celle d'un email inconnu
+    const token = await UserTokenService.createToken(user.id, 'magic_link', this.MAGIC_LINK_TTL_MINUTES)
+    await MailService.sendMagicLinkEmail(user.email, user.firstname, token, this.MAGIC_LINK_TTL_MINUTES).catch(error => {
+        console.error('Erreur lors de l\'envoi du lien de connexion:', error)
+    })
+   }
+
+   /*
+   Connexion à partir du lien magique reçu par email
+   Retourne la même réponse que /login (tokens, ou challenge 2FA si activée)
+   */
+   static async loginWithMagicLink(token: string, context: ClientContext = {}) {
+    // Vérifie le verrouillage avant de consommer le lien : un refus ne le fait pas perdre
+    const pendingUserId = await UserTokenService.findValidToken(token, 'magic_link')
+    const pendingUser = await prisma.user.findUnique({
+        where: { id: pendingUserId },
+        select: { email: true }
+    })
+
+    if (pendingUser) {
+        await LoginThrottleService.assertCanAttempt(pendingUser.email, context.ip)
+    }
+
+    const userId = await UserTokenService.consumeToken(token, 'magic_link')
+
+    let user = await prisma.user.findUnique({
+        where: { id: userId }
+    })
+
+    if (!user) {
+        throw new Error('Lien invalide ou expiré')
+    }
+
+    // Le lien a été reçu sur l'adresse du compte : elle est donc vérifiée
+    // Compte jamais vérifié : il a pu être créé par un tiers, son mot de passe et ses sessions sont annulés
+    if (!user.emailVerifiedAt) {
+        user = await this.claimUnverifiedAccount(user, 'magic_link', context)
+    }
+
+    await LoginThrottleService.recordSuccess(user.email)
+
+    return this.loginWithExternalIdentity(user, 'magic_link', context)
+   }
+
+   /*
+   Demande de réinitialisation du mot de passe ("mot de passe oublié")
+   Ne révèle jamais si l'email existe : la route répond toujours la même chose
+   Limitée comme les liens de connexion (délai + plafond horaire) : chaque nouveau lien invalide le précédent
+   */
+   static async requestPasswordReset(email: string, context: ClientContext = {}): Promise<void> {
+    await LoginThrottleService.assertCanAttempt(email, context.ip)
+
+    const user = await prisma.user.findUnique({
+        where: { email }
+    })
+
+    await AuthEventService.record({ type: 'password_reset_request', userId: user?.id, email, ...context })
+
+    if (!user) {
+        return
+    }
+
+    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000)
+    const { lastSentAt, count } = await UserTokenService.getRecentTokenActivity(user.id, 'password_reset', oneHourAgo)
+
+    const cooldownEnd = lastSentAt ? lastSentAt.getTime() + this.VERIFICATION_RESEND_COOLDOWN_SECONDS * 1000 : 0
+    if (cooldownEnd > Date.now() || count >= this.VERIFICATION_MAX_PER_HOUR) {
+        return
+    }
+
+    // Un échec d'envoi n'est pas remonté : la réponse doit rester identique à celle d'un email inconnu
+    const token = await UserTokenService.createToken(user.id, 'password_reset', this.PASSWORD_RESET_TTL_MINUTES)
+    await MailService.sendPasswordResetEmail(user.email, user.firstname, token, this.PASSWORD_RESET_TTL_MINUTES).catch(error => {
+        console.error('Erreur lors de l\'envoi de l\'email de réinitialisation:', error)
+    })
+   }
+
+   /*
+   Réinitialise le mot de passe à partir du token reçu par email
+   Toutes les sessions existantes sont révoquées : un éventuel attaquant est déconnecté
+   */
+   static async resetPassword(token: string, newPassword: string, context: ClientContext = {}): Promise<void> {
+    // Politique vérifiée avant de consommer le lien : un mot de passe refusé ne fait pas perdre le lien
+    const pendingUserId = await UserTokenService.findValidToken(token, 'password_reset')
+    const user = await prisma.user.findUnique({
+        where: { id: pendingUserId },
+        select: { firstname: true, lastname: true, email: true }
+    })
+    PasswordPolicyService.assertValid(newPassword, user ?? {})
+
+    const userId = await UserTokenService.consumeToken(token, 'password_reset')
+    const hashedPassword = await this.hashPassword(newPassword)
+
+    await prisma.user.update({
+        where: { id: userId },
+        data: { password: hashedPassword, tokenVersion: { increment: 1 } }
+    })
+
+    await SessionService.revokeAllForUser(userId, 'password_reset')
+    await AuthEventService.record({ type: 'password_change', userId, reason: 'password_reset', ...context })
+   }
+
+   /*
+   Changement de mot de passe par l'utilisateur connecté
+   Exige le mot de passe actuel ; les autres sessions sont révoquées, la session courante est conservée
+   */
+   static async changePassword(userId: number, currentPassword: string, newPassword: string, currentSessionId: string, context: ClientContext = {}): Promise<void> {
+    const user = await prisma.user.findUnique({
+        where: { id: userId }
+    })
+
+    if (!user) {
+        throw new Error('Utilisateur non trouvé')
+    }
+
+    const isPasswordValid = await this.comparePassword(currentPassword, user.password)
+    if (!isPasswordValid) {
+        await AuthEventService.record({ type: 'password_change', userId, reason: 'invalid_current_password', ...context })
+        throw new Error('Mot de passe actuel incorrect')
+    }
+
+    if (currentPassword === newPassword) {
+        throw new Error('Le nouveau mot de passe doit être différent de l\'ancien')
+    }
+
+    PasswordPolicyService.assertValid(newPassword, user)
+
+    await prisma.user.update({
+        where: { id: userId },
+        data: { password: await this.hashPassword(newPassword), tokenVersion: { increment: 1 } }
+    })
+
+    await SessionService.revokeAllForUser(userId, 'password_change', currentSessionId)
+    await AuthEventService.record({ type: 'password_change', userId, reason: 'password_change', ...context })
+   }
+
+   // Génère un token de vérification et envoie le lien de confirmation par email (aussi utilisé par l'administration)
+   static async sendVerificationEmail(user: { id: number; email: string; firstname: string }): Promise<void> {
+    const token = await UserTokenService.createToken(user.id, 'email_verification', this.EMAIL_VERIFICATION_TTL_MINUTES)
+    await MailService.sendEmailVerificationEmail(user.email, user.firstname, token)
+   }
+
+   // Confirme l'adresse email à partir du token reçu par email
+   static async verifyEmail(token: string): Promise<void> {
+    const userId = await UserTokenService.consumeToken(token, 'email_verification')
+
+    await prisma.user.update({
+        where: { id: userId },
+        data: { emailVerifiedAt: new Date() }
+    })
+   }
+
+   /*
+   Renvoie l'email de vérification
+   Limité à un envoi par minute et à 5 envois par heure pour éviter le spam
+   */
+   static async resendVerificationEmail(userId: number): Promise<void> {
+    const user = await prisma.user.findUnique({
+        where: { id: userId }
+    })
+
+    if (!user) {
+        throw new Error('Utilisateur non trouvé')
+    }
+
+    if (user.emailVerifiedAt) {
+        throw new Error('Adresse email déjà vérifiée')
+    }
+
+    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000)
+    const { lastSentAt, count } = await UserTokenService.getRecentTokenActivity(userId, 'email_verification', oneHourAgo)
+
+    const cooldownEnd = lastSentAt ? lastSentAt.getTime() + this.VERIFICATION_RESEND_COOLDOWN_SECONDS * 1000 : 0
+    if (cooldownEnd > Date.now() || count >= this.VERIFICATION_MAX_PER_HOUR) {
+        throw new Error('Trop de demandes d\'envoi, veuillez réessayer plus tard')
+    }
+
+    await this.sendVerificationEmail(user)
+   }
+
+   // Vérifie si l'utilisateur a confirmé son adresse email
+   static async isEmailVerified(userId: number): Promise<boolean> {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { emailVerifiedAt: true }
+    })
+
+    return !!user?.emailVerifiedAt
+   }
+
+   // Rôle actuel de l'utilisateur en base (source de vérité pour les permissions)
+   static async getUserRole(userId: number): Promise<string | null> {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { role: true }
+    })
+
+    return user?.role ?? null
+   }
+
    // Vérifie si un utilisateur a le rôle admin (utile pour gérer les animaux)
    static async isAdmin(userId: number): Promise<boolean> {
     try {
@@ -290,25 +948,26 @@ export class AuthService {
 
    /*
    Méthode utilitaire pour valider la force du mot de passe
-   Centralisée ici pour une logique cohérente sur toute la plateforme
+   Délègue à la politique centralisée (PasswordPolicyService) pour une logique cohérente sur toute la plateforme
    */
-   static isValidPassword(password: string): { valid: boolean; message?: string } {
-    if (password.length < 6) {
-        return {
-            valid: false,
-            message: 'Le mot de passe doit contenir au moins 6 caractères'
-        }
-    }
-
-    return { valid: true }
+   static isValidPassword(password: string, context: PasswordPolicyContext = {}): PasswordValidationResult {
+    return PasswordPolicyService.validate(password, context)
    }
 
     // Méthode pour promouvoir un utilisateur en admin
-   static async promoteToAdmin(userId: number): Promise<boolean> {
+   static async promoteToAdmin(userId: number, actorId?: number, context: ClientContext = {}): Promise<boolean> {
         try {
-            await prisma.user.update({
+            const updatedUser = await prisma.user.update({
                 where: { id: userId },
-                data: { role: 'admin' }
+                data: { role: 'admin', tokenVersion: { increment: 1 } }
+            });
+            await AuthEventService.record({
+                type: 'role_change',
+                userId,
+                email: updatedUser.email,
+                actorId,
+                metadata: { to: 'admin' },
+                ...context
             });
             return true;
         } catch (error) {
@@ -317,11 +976,19 @@ export class AuthService {
     }
 
     // Méthode pour rétrograder un admin en user
-    static async demoteFromAdmin(userId: number): Promise<boolean> {
+    static async demoteFromAdmin(userId: number, actorId?: number, context: ClientContext = {}): Promise<boolean> {
         try {
-            await prisma.user.update({
+            const updatedUser = await prisma.user.update({
                 where: { id: userId },
-                data: { role: 'user' }
+                data: { role: 'user', tokenVersion: { increment: 1 } }
+            });
+            await AuthEventService.record({
+                type: 'role_change',
+                userId,
+                email: updatedUser.email,
+                actorId,
+                metadata: { to: 'user' },
+                ...context
             });
             return true;
         } catch (error) {
@@ -329,6 +996,86 @@ export class AuthService {
         }
     }
 
+    /*
+    Création du premier administrateur (script create-admin)
+    Opération à usage unique : refusée dès qu'un administrateur existe en base
+    */
+    static async bootstrapAdmin(userData: {
+        firstname: string
+        lastname: string
+        email: string
+        password: string
+    }) {
+        const adminCount = await prisma.user.count({ where: { role: 'admin' } })
+        if (adminCount > 0) {
+            throw new Error('Un administrateur existe déjà, utilisez l\'interface d\'administration pour gérer les rôles')
+        }
+
+        const existingUser = await prisma.user.findUnique({
+            where: { email: userData.email }
+        })
+
+        if (existingUser) {
+            throw new Error("Un utilisateur avec cet email existe déjà")
+        }
+
+        const user = await prisma.user.create({
+            data: {
+                firstname: userData.firstname,
+                lastname: userData.lastname,
+                email: userData.email,
+                password: await this.hashPassword(userData.password),
+                role: 'admin',
+                // Compte créé par l'exploitant : l'adresse est considérée comme vérifiée
+                emailVerifiedAt: new Date()
+            }
+        })
+
+        await AuthEventService.record({
+            type: 'role_change',
+            userId: user.id,
+            email: user.email,
+            reason: 'bootstrap',
+            metadata: { to: 'admin' }
+        })
+
+        return user
+    }
+
+    /*
+    Promotion d'un compte existant en premier administrateur (script promote-admin)
+    Même règle que bootstrapAdmin : uniquement tant qu'aucun administrateur n'existe
+    */
+    static async bootstrapPromoteAdmin(email: string) {
+        const adminCount = await prisma.user.count({ where: { role: 'admin' } })
+        if (adminCount > 0) {
+            throw new Error('Un administrateur existe déjà, utilisez l\'interface d\'administration pour gérer les rôles')
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { email }
+        })
+
+        if (!user) {
+            throw new Error('Utilisateur non trouvé')
+        }
+
+        const updatedUser = await prisma.user.update({
+            where: { id: user.id },
+            data: { role: 'admin', tokenVersion: { increment: 1 } }
+        })
+
+        await AuthEventService.record({
+            type: 'role_change',
+            userId: user.id,
+            email: user.email,
+            reason: 'bootstrap',
+            metadata: { from: user.role, to: 'admin' }
+        })
+
+        return updatedUser
+    }
+
     // Lister tous les admins
     static async getAllAdmins() {
         return await prisma.user.findMany({
@@ -367,15 +1114,26 @@ Connexion :
 1. User saisit email/password
 2. Backend récupère le hash stocké en base
 3. Comparaison bcryptjs du password saisi vs hash stocké
-4. Si OK : génération JWT token
-5. Retour token + données user au frontend
+4. Si OK : ouverture d'une session + génération access token (JWT 15 min) et refresh token
+5. Retour tokens + données user au frontend
+
+----------------------------------------------------------------------------
+
+Renouvellement (POST /refresh) :
+1. Frontend envoie le refresh token quand l'access token expire
+2. L'ancien refresh token est marqué comme utilisé, un nouveau est émis (rotation)
+3. Si un refresh token déjà utilisé est rejoué : toute la session est révoquée
+
+Déconnexion (POST /logout) : la session est révoquée, ses tokens deviennent inutilisables
 
 ----------------------------------------------------------------------------
 
 Requêtes protégées :
 1. Frontend envoie token dans header "Authorization: Bearer TOKEN"
 2. Middleware authMiddleware intercepte
-3. Vérification JWT avec clé secrète
+3. Vérification JWT avec clé secrète + session toujours active en base
+   + version des droits (tv) identique à celle de l'utilisateur : après un changement de rôle
+   ou de mot de passe, l'ancien access token est refusé et le frontend passe par /refresh
 4. Si valide : req.user = données décodées du token
 5. Route peut accéder aux infos user via req.user
 */
\ No newline at end of file
@@ -0,0 +1,135 @@
+import { PrismaClient } from '@prisma/client'
+
+const prisma = new PrismaClient()
+
+type ThrottleScope = 'account' | 'ip'
+
+export class LoginThrottleService {
+    private static readonly MAX_ACCOUNT_FAILURES = parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || '5')
+    private static readonly MAX_IP_FAILURES = parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS_PER_IP || '20')
+    private static readonly LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15')
+    // Nombre d'échecs tolérés avant d'imposer un délai entre deux tentatives
+    private static readonly FREE_ATTEMPTS = 3
+    private static readonly MAX_DELAY_SECONDS = 60
+
+    private static maxFailures(scope: ThrottleScope): number {
+        return scope === 'account' ? this.MAX_ACCOUNT_FAILURES : this.MAX_IP_FAILURES
+    }
+
+    // Délai progressif : 1s, 2s, 4s, 8s... après les premières tentatives gratuites (plafonné à 60s)
+    private static delaySeconds(failedCount: number): number {
+        if (failedCount < this.FREE_ATTEMPTS) {
+            return 0
+        }
+        return Math.min(2 ** (failedCount - this.FREE_ATTEMPTS), this.MAX_DELAY_SECONDS)
+    }
+
+    // Au-delà de la fenêtre de verrouillage sans nouvel échec, le compteur repart de zéro
+    private static isExpired(lastFailedAt: Date | null, now: Date): boolean {
+        return !lastFailedAt || lastFailedAt.getTime() < now.getTime() - this.LOCKOUT_MINUTES * 60 * 1000
+    }
+
+    /*
+    Vérifie qu'une tentative de connexion est autorisée pour ce compte et cette IP
+    Lève une erreur si le compte/l'IP est verrouillé ou si le délai progressif n'est pas écoulé
+    */
+    static async assertCanAttempt(email: string, ip?: string): Promise<void> {
+        const identifiers = [{ scope: 'account' as ThrottleScope, identifier: email }]
+        if (ip) {
+            identifiers.push({ scope: 'ip', identifier: ip })
+        }
+
+        const records = await prisma.loginThrottle.findMany({
+            where: { OR: identifiers }
+        })
+
+        const now = new Date()
+
+        for (const record of records) {
+            if (record.lockedUntil && record.lockedUntil > now) {
+                const minutes = Math.ceil((record.lockedUntil.getTime() - now.getTime()) / 60000)
+                throw new Error(record.scope === 'account'
+                    ? `Compte temporairement verrouillé suite à trop d'échecs, réessayez dans ${minutes} minute(s)`
+                    : `Trop de tentatives depuis cette adresse IP, réessayez dans ${minutes} minute(s)`)
+            }
+
+            if (this.isExpired(record.lastFailedAt, now)) {
+                continue
+            }
+
+            const retryAt = record.lastFailedAt!.getTime() + this.delaySeconds(record.failedCount) * 1000
+            if (retryAt > now.getTime()) {
+                const seconds = Math.ceil((retryAt - now.getTime()) / 1000)
+                throw new Error(`Trop de tentatives de connexion, réessayez dans ${seconds} seconde(s)`)
+            }
+        }
+    }
+
+    // Enregistre un échec pour le compte et l'IP, et verrouille si le seuil est atteint
+    static async recordFailure(email: string, ip?: string): Promise<void> {
+        await this.incrementFailure('account', email)
+        if (ip) {
+            await this.incrementFailure('ip', ip)
+        }
+    }
+
+    private static async incrementFailure(scope: ThrottleScope, identifier: string): Promise<void> {
+        const now = new Date()
+        const existing = await prisma.loginThrottle.findUnique({
+            where: { scope_identifier: { scope, identifier } }
+        })
+
+        // Un verrouillage terminé ou une série d'échecs ancienne repart de zéro
+        const lockExpired = !!existing?.lockedUntil && existing.lockedUntil <= now
+        const failedCount = !existing || lockExpired || this.isExpired(existing.lastFailedAt, now)
+            ? 1
+            : existing.failedCount + 1
+
+        const lockedUntil = failedCount >= this.maxFailures(scope)
+            ? new Date(now.getTime() + this.LOCKOUT_MINUTES * 60 * 1000)
+            : null
+
+        await prisma.loginThrottle.upsert({
+            where: { scope_identifier: { scope, identifier } },
+            create: { scope, identifier, failedCount, lastFailedAt: now, lockedUntil },
+            update: { failedCount, lastFailedAt: now, lockedUntil }
+        })
+
+        if (lockedUntil) {
+            console.warn(`[AUTH] Verrouillage ${scope} "${identifier}" jusqu'à ${lockedUntil.toISOString()}`)
+        }
+    }
+
+    /*
+    Connexion réussie : le compteur du compte est remis à zéro
+    Le compteur IP est conservé pour ne pas permettre de le réinitialiser avec un compte valide
+    */
+    static async recordSuccess(email: string): Promise<void> {
+        await prisma.loginThrottle.deleteMany({
+            where: { scope: 'account', identifier: email }
+        })
+    }
+
+    // Déverrouillage manuel d'un compte (action administrateur)
+    static async unlockAccount(email: string): Promise<void> {
+        await prisma.loginThrottle.deleteMany({
+            where: { scope: 'account', identifier: email }
+        })
+    }
+
+    // État de verrouillage d'un compte (affiché dans l'administration)
+    static async getAccountLockState(email: string): Promise<{ isLocked: boolean; lockedUntil: Date | null; failedAttempts: number }> {
+        const record = await prisma.loginThrottle.findUnique({
+            where: { scope_identifier: { scope: 'account', identifier: email } }
+        })
+
+        const now = new Date()
+        const isLocked = !!record?.lockedUntil && record.lockedUntil > now
+
+        return {
+            isLocked,
+            lockedUntil: isLocked ? record!.lockedUntil : null,
+            failedAttempts: record && !this.isExpired(record.lastFailedAt, now) ? record.failedCount : 0
+        }
+    }
+}
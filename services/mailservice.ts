@@ -0,0 +1,151 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface MailMessage {
+    from?: string
+    to: string
+    subject: string
+    text: string
+    html?: string
+}
+
+// Contrat commun à tous les transports d'emails (outbox locale, console, SMTP...)
+export interface MailTransport {
+    send(message: MailMessage): Promise<void>
+}
+
+/*
+Transport de développement et de test : chaque email est écrit dans un fichier JSON
+du dossier MAIL_OUTBOX_DIR (./outbox par défaut) au lieu d'être réellement envoyé
+*/
+export class OutboxMailTransport implements MailTransport {
+    constructor(private readonly outboxDir: string) {}
+
+    async send(message: MailMessage): Promise<void> {
+        await fs.mkdir(this.outboxDir, { recursive: true })
+
+        const fileName = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`
+        const payload = {
+            ...message,
+            sentAt: new Date().toISOString()
+        }
+
+        await fs.writeFile(path.join(this.outboxDir, fileName), JSON.stringify(payload, null, 2), 'utf-8')
+    }
+}
+
+// Transport minimal qui affiche les emails dans la console
+export class ConsoleMailTransport implements MailTransport {
+    async send(message: MailMessage): Promise<void> {
+        console.log(`[MAIL] À: ${message.to} - Sujet: ${message.subject}\n${message.text}`)
+    }
+}
+
+/*
+Transport par défaut en production tant qu'aucun transport réel n'est branché (setTransport)
+Refuse d'envoyer : les liens (réinitialisation, vérification, connexion) ne doivent pas finir dans des fichiers
+*/
+export class UnconfiguredMailTransport implements MailTransport {
+    async send(message: MailMessage): Promise<void> {
+        throw new Error(`Aucun transport d'email configuré : email "${message.subject}" non envoyé (MAIL_TRANSPORT ou MailService.setTransport)`)
+    }
+}
+
+export class MailService {
+    private static readonly FROM = process.env.MAIL_FROM || 'Adaopte <no-reply@adaopte.com>'
+    private static transport: MailTransport = MailService.createDefaultTransport()
+
+    // Choisit le transport selon MAIL_TRANSPORT (outbox par défaut hors production uniquement)
+    private static createDefaultTransport(): MailTransport {
+        switch (process.env.MAIL_TRANSPORT) {
+            case 'console':
+                return new ConsoleMailTransport()
+            case 'outbox':
+                return new OutboxMailTransport(process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'outbox'))
+            default:
+                if (process.env.NODE_ENV === 'production') {
+                    console.error('[MAIL] Aucun transport d\'email configuré en production : les emails ne seront pas envoyés')
+                    return new UnconfiguredMailTransport()
+                }
+                return new OutboxMailTransport(process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'outbox'))
+        }
+    }
+
+    // Permet de brancher un autre transport (SMTP, API d'un prestataire, mock de test...)
+    static setTransport(transport: MailTransport): void {
+        this.transport = transport
+    }
+
+    static async send(message: MailMessage): Promise<void> {
+        await this.transport.send({ from: this.FROM, ...message })
+    }
+
+    // Construit un lien vers le frontend (page de réinitialisation, de vérification...)
+    static buildFrontendUrl(pathname: string, params: Record<string, string>): string {
+        const url = new URL(pathname, process.env.FRONTEND_URL || 'http://localhost:3000')
+        Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value))
+        return url.toString()
+    }
+
+    // Email de réinitialisation du mot de passe
+    static async sendPasswordResetEmail(to: string, firstname: string, token: string, expiresInMinutes: number): Promise<void> {
+        const resetUrl = this.buildFrontendUrl('/reset-password', { token })
+
+        await this.send({
+            to,
+            subject: 'Réinitialisation de votre mot de passe Adaopte',
+            text: [
+                `Bonjour ${firstname},`,
+                '',
+                'Vous avez demandé la réinitialisation de votre mot de passe.',
+                `Cliquez sur le lien suivant (valable ${expiresInMinutes} minutes) :`,
+                resetUrl,
+                '',
+                'Si vous n\'êtes pas à l\'origine de cette demande, ignorez simplement cet email.',
+                '',
+                'L\'équipe Adaopte'
+            ].join('\n')
+        })
+    }
+
+    // Email de connexion sans mot de passe (lien à usage unique)
+    static async sendMagicLinkEmail(to: string, firstname: string, token: string, expiresInMinutes: number): Promise<void> {
+        const loginUrl = this.buildFrontendUrl('/magic-link', { token })
+
+        await this.send({
+            to,
+            subject: 'Votre lien de connexion Adaopte',
+            text: [
+                `Bonjour ${firstname},`,
+                '',
+                'Cliquez sur le lien suivant pour vous connecter à votre compte :',
+                loginUrl,
+                '',
+                `Ce lien est valable ${expiresInMinutes} minutes et ne peut être utilisé qu'une seule fois.`,
+                'Si vous n\'êtes pas à l\'origine de cette demande, ignorez simplement cet email.',
+                '',
+                'L\'équipe Adaopte'
+            ].join('\n')
+        })
+    }
+
+    // Email de confirmation de l'adresse (inscription ou changement d'email)
+    static async sendEmailVerificationEmail(to: string, firstname: string, token: string): Promise<void> {
+        const verifyUrl = this.buildFrontendUrl('/verify-email', { token })
+
+        await this.send({
+            to,
+            subject: 'Confirmez votre adresse email Adaopte',
+            text: [
+                `Bonjour ${firstname},`,
+                '',
+                'Merci de confirmer votre adresse email en cliquant sur le lien suivant :',
+                verifyUrl,
+                '',
+                'Cette confirmation est nécessaire pour déposer une demande d\'adoption.',
+                '',
+                'L\'équipe Adaopte'
+            ].join('\n')
+        })
+    }
+}
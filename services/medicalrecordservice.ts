@@ -0,0 +1,284 @@
+import { MedicalRecord, PrismaClient } from '@prisma/client'
+import { ANIMAL_STATUSES_OUT_OF_CARE } from '../lib/animalstatus'
+
+const prisma = new PrismaClient()
+
+export const MEDICAL_RECORD_TYPES = [
+    'vaccination',
+    'sterilization',
+    'deworming',
+    'vet_visit',
+    'diagnosis',
+    'treatment',
+    'microchip'
+] as const
+
+export type MedicalRecordType = typeof MEDICAL_RECORD_TYPES[number]
+
+// Dates acceptées en chaîne ISO (corps JSON) ou en Date
+export interface MedicalRecordInput {
+    type: string
+    title: string
+    performedAt: string | Date
+    dueAt?: string | Date | null
+    endsAt?: string | Date | null
+    veterinarian?: string | null
+    notes?: string | null
+}
+
+// Résumé public de santé affiché sur la fiche d'un animal (aucun détail médical)
+export interface MedicalSummary {
+    vaccinated: boolean
+    vaccinationsUpToDate: boolean
+    sterilized: boolean
+    chipped: boolean
+    dewormed: boolean
+    lastVetVisitAt: Date | null
+}
+
+// Champs nécessaires au calcul du résumé et des rappels
+type MedicalRecordFacts = Pick<MedicalRecord, 'type' | 'title' | 'performedAt' | 'dueAt'>
+
+export class MedicalRecordService {
+
+    private static isValidType(type: string): type is MedicalRecordType {
+        return (MEDICAL_RECORD_TYPES as readonly string[]).includes(type)
+    }
+
+    private static toDate(value: string | Date, field: string): Date {
+        const date = value instanceof Date ? value : new Date(value)
+        if (isNaN(date.getTime())) {
+            throw new Error(`Date invalide pour le champ ${field}`)
+        }
+        return date
+    }
+
+    private static toOptionalDate(value: string | Date | null | undefined, field: string): Date | null | undefined {
+        if (value === undefined) {
+            return undefined
+        }
+        return value === null || value === '' ? null : this.toDate(value, field)
+    }
+
+    private static async getAnimalOrThrow(animalId: number) {
+        const animal = await prisma.animal.findUnique({ where: { id: animalId }, select: { id: true } })
+        if (!animal) {
+            throw new Error('Animal non trouvé')
+        }
+        return animal
+    }
+
+    private static async getRecordOrThrow(animalId: number, recordId: number) {
+        const record = await prisma.medicalRecord.findFirst({ where: { id: recordId, animalId } })
+        if (!record) {
+            throw new Error('Acte médical non trouvé')
+        }
+        return record
+    }
+
+    /*
+    Valide et nettoie les données d'un acte
+    Un rappel (dueAt) n'a de sens que pour une vaccination ou un vermifuge, une date de fin que pour un traitement
+    */
+    private static cleanInput(data: Partial<MedicalRecordInput>, existing?: MedicalRecord) {
+        const cleanData: any = {}
+
+        if (data.type !== undefined) {
+            if (!this.isValidType(data.type)) {
+                throw new Error(`Type d'acte invalide. Types autorisés: ${MEDICAL_RECORD_TYPES.join(', ')}`)
+            }
+            cleanData.type = data.type
+        }
+        if (data.title !== undefined) {
+            if (!data.title?.trim() || data.title.trim().length > 200) {
+                throw new Error('Le libellé de l\'acte est requis (200 caractères maximum)')
+            }
+            cleanData.title = data.title.trim()
+        }
+        if (data.performedAt !== undefined) {
+            cleanData.performedAt = this.toDate(data.performedAt, 'performedAt')
+        }
+
+        const dueAt = this.toOptionalDate(data.dueAt, 'dueAt')
+        const endsAt = this.toOptionalDate(data.endsAt, 'endsAt')
+        if (dueAt !== undefined) cleanData.dueAt = dueAt
+        if (endsAt !== undefined) cleanData.endsAt = endsAt
+
+        if (data.veterinarian !== undefined) {
+            cleanData.veterinarian = data.veterinarian?.trim().slice(0, 200) || null
+        }
+        if (data.notes !== undefined) {
+            cleanData.notes = data.notes?.trim() || null
+        }
+
+        // Cohérence avec les valeurs finales (données envoyées ou déjà enregistrées)
+        const type = cleanData.type ?? existing?.type
+        const performedAt: Date = cleanData.performedAt ?? existing?.performedAt
+        const finalDueAt: Date | null = cleanData.dueAt !== undefined ? cleanData.dueAt : existing?.dueAt ?? null
+        const finalEndsAt: Date | null = cleanData.endsAt !== undefined ? cleanData.endsAt : existing?.endsAt ?? null
+
+        if (finalDueAt && type !== 'vaccination' && type !== 'deworming') {
+            throw new Error('Une date de rappel n\'est possible que pour une vaccination ou un vermifuge')
+        }
+        if (finalEndsAt && type !== 'treatment') {
+            throw new Error('Une date de fin n\'est possible que pour un traitement')
+        }
+        if (finalDueAt && finalDueAt <= performedAt) {
+            throw new Error('La date de rappel doit être postérieure à la date de l\'acte')
+        }
+        if (finalEndsAt && finalEndsAt < performedAt) {
+            throw new Error('La date de fin doit être postérieure à la date de début du traitement')
+        }
+
+        return cleanData
+    }
+
+    // Dossier médical d'un animal, le plus récent en premier (filtre optionnel par type)
+    static async listRecords(animalId: number, type?: string) {
+        await this.getAnimalOrThrow(animalId)
+
+        if (type && !this.isValidType(type)) {
+            throw new Error(`Type d'acte invalide. Types autorisés: ${MEDICAL_RECORD_TYPES.join(', ')}`)
+        }
+
+        return prisma.medicalRecord.findMany({
+            where: { animalId, ...(type && { type }) },
+            orderBy: [{ performedAt: 'desc' }, { id: 'desc' }]
+        })
+    }
+
+    // Ajouter un acte au dossier médical
+    static async createRecord(animalId: number, data: MedicalRecordInput, actorId: number) {
+        await this.getAnimalOrThrow(animalId)
+
+        if (!data.type || !data.title || !data.performedAt) {
+            throw new Error('Les champs type, title et performedAt sont requis')
+        }
+
+        return prisma.medicalRecord.create({
+            data: {
+                ...this.cleanInput(data),
+                animalId,
+                createdById: actorId
+            }
+        })
+    }
+
+    // Modifier un acte (seuls les champs envoyés sont mis à jour)
+    static async updateRecord(animalId: number, recordId: number, data: Partial<MedicalRecordInput>) {
+        const existing = await this.getRecordOrThrow(animalId, recordId)
+
+        return prisma.medicalRecord.update({
+            where: { id: recordId },
+            data: this.cleanInput(data, existing)
+        })
+    }
+
+    // Supprimer un acte saisi par erreur
+    static async deleteRecord(animalId: number, recordId: number) {
+        await this.getRecordOrThrow(animalId, recordId)
+
+        await prisma.medicalRecord.delete({ where: { id: recordId } })
+
+        return { message: 'Acte médical supprimé avec succès' }
+    }
+
+    /*
+    Dernière vaccination de chaque vaccin (par libellé, sans tenir compte de la casse)
+    Un rappel effectué remplace la vaccination précédente du même vaccin
+    */
+    private static latestVaccinations<T extends MedicalRecordFacts>(records: T[]): T[] {
+        const latest = new Map<string, T>()
+
+        for (const record of records) {
+            if (record.type !== 'vaccination') continue
+
+            const key = record.title.trim().toLowerCase()
+            const current = latest.get(key)
+            if (!current || record.performedAt > current.performedAt) {
+                latest.set(key, record)
+            }
+        }
+
+        return Array.from(latest.values())
+    }
+
+    /*
+    Résumé public (vacciné, stérilisé, pucé...) calculé à partir du dossier médical
+    Un animal est aussi considéré pucé si un numéro de puce est enregistré sur sa fiche (identifierType)
+    */
+    static buildSummary(records: MedicalRecordFacts[], identifierType?: string | null, now: Date = new Date()): MedicalSummary {
+        const vaccinations = this.latestVaccinations(records)
+        const vetVisits = records
+            .filter(record => record.type === 'vet_visit')
+            .map(record => record.performedAt.getTime())
+
+        return {
+            vaccinated: vaccinations.length > 0,
+            vaccinationsUpToDate: vaccinations.length > 0 && vaccinations.every(record => !record.dueAt || record.dueAt >= now),
+            sterilized: records.some(record => record.type === 'sterilization'),
+            chipped: identifierType === 'microchip' || records.some(record => record.type === 'microchip'),
+            dewormed: records.some(record => record.type === 'deworming'),
+            lastVetVisitAt: vetVisits.length > 0 ? new Date(Math.max(...vetVisits)) : null
+        }
+    }
+
+    // Résumé de santé d'un animal (dossier médical et identification de la fiche)
+    static async getSummary(animalId: number): Promise<MedicalSummary> {
+        const animal = await prisma.animal.findUnique({
+            where: { id: animalId },
+            select: {
+                identifierType: true,
+                medicalRecords: {
+                    select: { type: true, title: true, performedAt: true, dueAt: true }
+                }
+            }
+        })
+        if (!animal) {
+            throw new Error('Animal non trouvé')
+        }
+
+        return this.buildSummary(animal.medicalRecords, animal.identifierType)
+    }
+
+    /*
+    Vaccins dont le rappel est dépassé (ou arrive dans les withinDays prochains jours), pour le personnel
+    Les animaux adoptés ou décédés ne sont plus suivis par le refuge et sont exclus
+    */
+    static async getOverdueVaccinations(withinDays: number = 0) {
+        const limitDate = new Date(Date.now() + withinDays * 24 * 60 * 60 * 1000)
+        const now = new Date()
+
+        const records = await prisma.medicalRecord.findMany({
+            where: {
+                type: 'vaccination',
+                animal: { status: { notIn: [...ANIMAL_STATUSES_OUT_OF_CARE] } }
+            },
+            include: {
+                animal: {
+                    select: { id: true, name: true, type: true, breed: true, status: true }
+                }
+            }
+        })
+
+        // Regrouper par animal pour ne garder que la dernière vaccination de chaque vaccin
+        const byAnimal = new Map<number, typeof records>()
+        for (const record of records) {
+            byAnimal.set(record.animalId, [...(byAnimal.get(record.animalId) ?? []), record])
+        }
+
+        return Array.from(byAnimal.values())
+            .flatMap(animalRecords => this.latestVaccinations(animalRecords))
+            .filter(record => record.dueAt && record.dueAt <= limitDate)
+            .sort((a, b) => a.dueAt!.getTime() - b.dueAt!.getTime())
+            .map(record => ({
+                recordId: record.id,
+                vaccine: record.title,
+                lastVaccinatedAt: record.performedAt,
+                dueAt: record.dueAt,
+                overdue: record.dueAt! < now,
+                daysOverdue: Math.max(0, Math.floor((now.getTime() - record.dueAt!.getTime()) / (24 * 60 * 60 * 1000))),
+                animal: record.animal
+            }))
+    }
+}
@@ -0,0 +1,331 @@
+import crypto from 'crypto';
+import JWT from 'jsonwebtoken';
+import { PrismaClient } from '@prisma/client';
+import { AuthService } from './authservice';
+import { AuthEventService, ClientContext } from './autheventservice';
+
+const prisma = new PrismaClient()
+
+/*
+Connexion via un fournisseur OpenID Connect (flux authorization code + PKCE)
+Fournisseurs configurés dans OIDC_PROVIDERS (JSON), par exemple :
+[{ "id": "mock", "name": "IdP de test", "issuer": "http://localhost:4010", "clientId": "adaopte", "clientSecret": "secret" }]
+Un fournisseur de test local est disponible : npm run mock-idp
+*/
+
+export interface OidcProviderConfig {
+    id: string
+    name: string
+    issuer: string
+    clientId: string
+    clientSecret?: string
+    scopes?: string[]
+    redirectUri?: string // défaut : FRONTEND_URL/auth/oidc/<id>/callback
+    allowSignup?: boolean // crée un compte si aucun utilisateur ne correspond (défaut : true)
+}
+
+interface DiscoveryDocument {
+    issuer: string
+    authorization_endpoint: string
+    token_endpoint: string
+    jwks_uri: string
+}
+
+interface IdTokenClaims {
+    sub: string
+    email?: string
+    email_verified?: boolean
+    given_name?: string
+    family_name?: string
+    name?: string
+    nonce?: string
+}
+
+export class OidcService {
+    private static readonly AUTH_REQUEST_TTL_MINUTES = 10
+    private static readonly CACHE_TTL_MS = 60 * 60 * 1000
+    private static readonly HTTP_TIMEOUT_MS = 10 * 1000
+    private static readonly SUPPORTED_ALGORITHMS: JWT.Algorithm[] = ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'PS256']
+
+    private static discoveryCache = new Map<string, { loadedAt: number; document: DiscoveryDocument }>()
+    private static jwksCache = new Map<string, { loadedAt: number; keys: crypto.JsonWebKey[] }>()
+
+    // Fournisseurs déclarés dans OIDC_PROVIDERS (une configuration invalide désactive OIDC)
+    static getProviders(): OidcProviderConfig[] {
+        if (!process.env.OIDC_PROVIDERS) {
+            return []
+        }
+
+        try {
+            const providers = JSON.parse(process.env.OIDC_PROVIDERS) as OidcProviderConfig[]
+            return providers.filter(provider => provider.id && provider.issuer && provider.clientId)
+        } catch (error) {
+            console.error('Configuration OIDC_PROVIDERS invalide:', error)
+            return []
+        }
+    }
+
+    private static getProvider(providerId: string): OidcProviderConfig {
+        const provider = this.getProviders().find(candidate => candidate.id === providerId)
+        if (!provider) {
+            throw new Error('Fournisseur d\'identité inconnu')
+        }
+        return provider
+    }
+
+    private static getRedirectUri(provider: OidcProviderConfig): string {
+        return provider.redirectUri
+            || new URL(`/auth/oidc/${provider.id}/callback`, process.env.FRONTEND_URL || 'http://localhost:3000').toString()
+    }
+
+    private static async fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+        const response = await fetch(url, { ...init, signal: AbortSignal.timeout(this.HTTP_TIMEOUT_MS) })
+        const body = await response.json().catch(() => null)
+
+        if (!response.ok) {
+            console.error(`[OIDC] ${url} a répondu ${response.status}:`, body)
+            throw new Error('Le fournisseur d\'identité a refusé la requête')
+        }
+
+        return body as T
+    }
+
+    // Document de découverte (.well-known/openid-configuration), mis en cache une heure
+    private static async getDiscovery(provider: OidcProviderConfig): Promise<DiscoveryDocument> {
+        const cached = this.discoveryCache.get(provider.id)
+        if (cached && Date.now() - cached.loadedAt < this.CACHE_TTL_MS) {
+            return cached.document
+        }
+
+        const issuer = provider.issuer.replace(/\/$/, '')
+        const document = await this.fetchJson<DiscoveryDocument>(`${issuer}/.well-known/openid-configuration`)
+
+        if (document.issuer.replace(/\/$/, '') !== issuer) {
+            throw new Error('Document de découverte OIDC invalide (issuer différent)')
+        }
+
+        this.discoveryCache.set(provider.id, { loadedAt: Date.now(), document })
+        return document
+    }
+
+    // Clés publiques du fournisseur ; rechargées si le kid est inconnu (rotation des clés)
+    private static async getSigningKey(provider: OidcProviderConfig, jwksUri: string, kid?: string): Promise<crypto.KeyObject> {
+        const findKey = (keys: crypto.JsonWebKey[]) => keys.find(key => (key.use === undefined || key.use === 'sig') && (!kid || key.kid === kid))
+
+        const cached = this.jwksCache.get(provider.id)
+        let key = cached && Date.now() - cached.loadedAt < this.CACHE_TTL_MS ? findKey(cached.keys) : undefined
+
+        if (!key) {
+            const { keys } = await this.fetchJson<{ keys: crypto.JsonWebKey[] }>(jwksUri)
+            this.jwksCache.set(provider.id, { loadedAt: Date.now(), keys })
+            key = findKey(keys)
+        }
+
+        if (!key) {
+            throw new Error('Clé de signature de l\'ID token introuvable')
+        }
+
+        return crypto.createPublicKey({ key, format: 'jwk' })
+    }
+
+    private static base64url(buffer: Buffer): string {
+        return buffer.toString('base64url')
+    }
+
+    /*
+    Étape 1 : prépare l'URL d'autorisation du fournisseur
+    state (anti-CSRF), nonce (anti-rejeu de l'ID token) et code_verifier (PKCE) sont conservés en base
+    */
+    static async createAuthorizationUrl(providerId: string): Promise<string> {
+        const provider = this.getProvider(providerId)
+        const discovery = await this.getDiscovery(provider)
+
+        const state = this.base64url(crypto.randomBytes(32))
+        const nonce = this.base64url(crypto.randomBytes(32))
+        const codeVerifier = this.base64url(crypto.randomBytes(48))
+        const codeChallenge = this.base64url(crypto.createHash('sha256').update(codeVerifier).digest())
+        const redirectUri = this.getRedirectUri(provider)
+
+        // Nettoyage opportuniste des demandes abandonnées
+        await prisma.oidcAuthRequest.deleteMany({ where: { expiresAt: { lt: new Date() } } })
+
+        await prisma.oidcAuthRequest.create({
+            data: {
+                state,
+                provider: provider.id,
+                nonce,
+                codeVerifier,
+                redirectUri,
+                expiresAt: new Date(Date.now() + this.AUTH_REQUEST_TTL_MINUTES * 60 * 1000)
+            }
+        })
+
+        const url = new URL(discovery.authorization_endpoint)
+        url.searchParams.set('response_type', 'code')
+        url.searchParams.set('client_id', provider.clientId)
+        url.searchParams.set('redirect_uri', redirectUri)
+        url.searchParams.set('scope', (provider.scopes || ['openid', 'email', 'profile']).join(' '))
+        url.searchParams.set('state', state)
+        url.searchParams.set('nonce', nonce)
+        url.searchParams.set('code_challenge', codeChallenge)
+        url.searchParams.set('code_challenge_method', 'S256')
+
+        return url.toString()
+    }
+
+    /*
+    Vérifie l'ID token : signature (JWKS), émetteur, audience, expiration et nonce
+    */
+    static async validateIdToken(provider: OidcProviderConfig, idToken: string, expectedNonce: string): Promise<IdTokenClaims> {
+        const discovery = await this.getDiscovery(provider)
+        const decoded = JWT.decode(idToken, { complete: true })
+
+        if (!decoded || typeof decoded.payload === 'string') {
+            throw new Error('ID token invalide')
+        }
+
+        const key = await this.getSigningKey(provider, discovery.jwks_uri, decoded.header.kid)
+
+        let claims: IdTokenClaims
+        try {
+            claims = JWT.verify(idToken, key, {
+                algorithms: this.SUPPORTED_ALGORITHMS,
+                issuer: discovery.issuer,
+                audience: provider.clientId
+            }) as IdTokenClaims
+        } catch (error) {
+            throw new Error('ID token invalide')
+        }
+
+        if (!claims.nonce || claims.nonce !== expectedNonce) {
+            throw new Error('ID token invalide')
+        }
+
+        return claims
+    }
+
+    // Échange le code d'autorisation contre les tokens du fournisseur (avec le code_verifier PKCE)
+    private static async exchangeCode(provider: OidcProviderConfig, code: string, codeVerifier: string, redirectUri: string): Promise<string> {
+        const discovery = await this.getDiscovery(provider)
+
+        const body = new URLSearchParams({
+            grant_type: 'authorization_code',
+            code,
+            redirect_uri: redirectUri,
+            client_id: provider.clientId,
+            code_verifier: codeVerifier
+        })
+        if (provider.clientSecret) {
+            body.set('client_secret', provider.clientSecret)
+        }
+
+        const tokens = await this.fetchJson<{ id_token?: string }>(discovery.token_endpoint, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+            body
+        })
+
+        if (!tokens.id_token) {
+            throw new Error('Le fournisseur d\'identité n\'a pas retourné d\'ID token')
+        }
+
+        return tokens.id_token
+    }
+
+    /*
+    Retrouve l'utilisateur correspondant à l'identité externe :
+    1. identité déjà rattachée (fournisseur + sub)
+    2. sinon compte existant avec le même email, uniquement si le fournisseur l'a vérifié
+    3. sinon création d'un compte (si autorisé pour ce fournisseur)
+    */
+    private static async findOrCreateUser(provider: OidcProviderConfig, claims: IdTokenClaims) {
+        const identity = await prisma.userIdentity.findUnique({
+            where: { provider_subject: { provider: provider.id, subject: claims.sub } },
+            include: { user: true }
+        })
+
+        if (identity) {
+            await prisma.userIdentity.update({
+                where: { id: identity.id },
+                data: { lastLoginAt: new Date(), email: claims.email }
+            })
+            return { user: identity.user, created: false, linked: false }
+        }
+
+        if (!claims.email || claims.email_verified !== true) {
+            throw new Error('Le fournisseur d\'identité n\'a pas fourni d\'email vérifié')
+        }
+
+        const email = claims.email.trim().toLowerCase()
+        let user = await prisma.user.findUnique({ where: { email } })
+        const created = !user
+
+        if (!user) {
+            if (provider.allowSignup === false) {
+                throw new Error('Aucun compte ne correspond à cette identité')
+            }
+
+            const [firstname, ...lastnameParts] = (claims.name || email.split('@')[0]).split(' ')
+
+            user = await prisma.user.create({
+                data: {
+                    firstname: (claims.given_name || firstname).slice(0, 100),
+                    lastname: (claims.family_name || lastnameParts.join(' ') || '-').slice(0, 100),
+                    email,
+                    // Pas de mot de passe utilisable : connexion par le fournisseur ou via "mot de passe oublié"
+                    password: await AuthService.hashPassword(crypto.randomBytes(32).toString('hex')),
+                    role: 'user',
+                    emailVerifiedAt: new Date()
+                }
+            })
+        } else if (!user.emailVerifiedAt) {
+            // L'email est vérifié par le fournisseur, pas le compte existant : il a pu être créé par un tiers
+            // Son mot de passe, sa 2FA et ses sessions sont annulés avant la liaison
+            user = await AuthService.claimUnverifiedAccount(user, `oidc:${provider.id}`)
+        }
+
+        await prisma.userIdentity.create({
+            data: {
+                userId: user.id,
+                provider: provider.id,
+                subject: claims.sub,
+                email,
+                lastLoginAt: new Date()
+            }
+        })
+
+        return { user, created, linked: !created }
+    }
+
+    /*
+    Étape 2 : retour du fournisseur avec code + state
+    Retourne la même réponse que la connexion par mot de passe (tokens ou challenge 2FA)
+    */
+    static async handleCallback(providerId: string, code: string, state: string, context: ClientContext = {}) {
+        const provider = this.getProvider(providerId)
+
+        const authRequest = await prisma.oidcAuthRequest.findUnique({ where: { state } })
+
+        // La demande est supprimée dès sa lecture : un state ne sert qu'une fois
+        const consumed = authRequest
+            ? await prisma.oidcAuthRequest.deleteMany({ where: { id: authRequest.id } })
+            : { count: 0 }
+
+        if (!authRequest || consumed.count === 0 || authRequest.provider !== provider.id || authRequest.expiresAt < new Date()) {
+            throw new Error('Demande de connexion invalide ou expirée')
+        }
+
+        const idToken = await this.exchangeCode(provider, code, authRequest.codeVerifier, authRequest.redirectUri)
+        const claims = await this.validateIdToken(provider, idToken, authRequest.nonce)
+        const { user, created, linked } = await this.findOrCreateUser(provider, claims)
+
+        if (created) {
+            await AuthEventService.record({ type: 'register', userId: user.id, email: user.email, reason: `oidc:${provider.id}`, ...context })
+        }
+        if (linked) {
+            await AuthEventService.record({ type: 'identity_linked', userId: user.id, email: user.email, reason: provider.id, ...context })
+        }
+
+        return AuthService.loginWithExternalIdentity(user, `oidc:${provider.id}`, context)
+    }
+}
@@ -0,0 +1,99 @@
+import crypto from 'crypto'
+import { COMMON_PASSWORDS } from '../lib/commonpasswords'
+
+// Informations personnelles que le mot de passe ne doit pas contenir
+export interface PasswordPolicyContext {
+    firstname?: string | null
+    lastname?: string | null
+    email?: string | null
+}
+
+export interface PasswordValidationResult {
+    valid: boolean
+    message?: string
+    errors: string[]
+}
+
+export class PasswordPolicyService {
+    private static readonly MIN_LENGTH = parseInt(process.env.PASSWORD_MIN_LENGTH || '8')
+    private static readonly MAX_LENGTH = 128
+    // Nombre minimum de classes parmi minuscules, majuscules, chiffres et caractères spéciaux
+    private static readonly MIN_CHARACTER_CLASSES = parseInt(process.env.PASSWORD_MIN_CHARACTER_CLASSES || '3')
+    private static readonly MIN_PERSONAL_TOKEN_LENGTH = 3
+
+    // Minuscules sans accents, pour comparer le mot de passe aux informations personnelles
+    private static normalize(value: string): string {
+        return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+    }
+
+    private static countCharacterClasses(password: string): number {
+        return [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/]
+            .filter(pattern => pattern.test(password))
+            .length
+    }
+
+    // "Password123!" est aussi courant que "password" : on retire chiffres et symboles en fin de chaîne
+    private static isCommonPassword(password: string): boolean {
+        const lowered = password.toLowerCase()
+        const stem = lowered.replace(/[^a-z]+$/, '')
+        return COMMON_PASSWORDS.has(lowered) || COMMON_PASSWORDS.has(stem)
+    }
+
+    private static containsPersonalInfo(password: string, context: PasswordPolicyContext): boolean {
+        const normalizedPassword = this.normalize(password)
+        const tokens = [
+            context.firstname,
+            context.lastname,
+            context.email?.split('@')[0]
+        ]
+            .filter((value): value is string => !!value)
+            .flatMap(value => this.normalize(value).split(/[^a-z0-9]+/))
+            .filter(token => token.length >= this.MIN_PERSONAL_TOKEN_LENGTH)
+
+        return tokens.some(token => normalizedPassword.includes(token))
+    }
+
+    /*
+    Valide un mot de passe selon la politique de la plateforme
+    Règles : longueur, diversité des caractères, absence d'informations personnelles, absence des listes de fuites
+    */
+    static validate(password: string, context: PasswordPolicyContext = {}): PasswordValidationResult {
+        const errors: string[] = []
+
+        if (password.length < this.MIN_LENGTH) {
+            errors.push(`Le mot de passe doit contenir au moins ${this.MIN_LENGTH} caractères`)
+        }
+        if (password.length > this.MAX_LENGTH) {
+            errors.push(`Le mot de passe ne doit pas dépasser ${this.MAX_LENGTH} caractères`)
+        }
+        if (this.countCharacterClasses(password) < this.MIN_CHARACTER_CLASSES) {
+            errors.push(`Le mot de passe doit combiner au moins ${this.MIN_CHARACTER_CLASSES} types de caractères parmi minuscules, majuscules, chiffres et caractères spéciaux`)
+        }
+        if (this.isCommonPassword(password)) {
+            errors.push('Le mot de passe est trop courant, choisissez-en un autre')
+        }
+        if (this.containsPersonalInfo(password, context)) {
+            errors.push('Le mot de passe ne doit pas contenir votre nom, prénom ou adresse email')
+        }
+
+        return {
+            valid: errors.length === 0,
+            message: errors[0],
+            errors
+        }
+    }
+
+    // Lève une erreur avec le premier problème détecté si le mot de passe est refusé
+    static assertValid(password: string, context: PasswordPolicyContext = {}): void {
+        const result = this.validate(password, context)
+        if (!result.valid) {
+            throw new Error(result.message)
+        }
+    }
+
+    // Mot de passe temporaire aléatoire respectant la politique (comptes créés par un administrateur)
+    static generateTemporaryPassword(): string {
+        const random = crypto.randomBytes(12).toString('base64url')
+        return `${random}-Aa1`
+    }
+}
@@ -0,0 +1,283 @@
+import { PrismaClient } from '@prisma/client'
+
+const prisma = new PrismaClient()
+
+// Catalogue des permissions connues de l'application
+export const PERMISSIONS = {
+    'animals:read': 'Consulter tous les animaux et leurs statistiques',
+    'animals:write': 'Créer, modifier et supprimer des animaux',
+    'medical:read': 'Consulter les dossiers médicaux des animaux et les rappels de vaccins en retard',
+    'medical:write': 'Saisir, modifier et supprimer des actes médicaux',
+    'adoptions:read': 'Consulter les demandes d\'adoption',
+    'adoptions:review': 'Approuver, rejeter ou supprimer des demandes d\'adoption',
+    'donations:read': 'Consulter les dons et leurs statistiques',
+    'donations:refund': 'Modifier le statut des dons (paiement, remboursement)',
+    'donations:manage': 'Supprimer des dons',
+    'contacts:read': 'Consulter les messages de contact',
+    'contacts:manage': 'Traiter, répondre et supprimer des messages de contact',
+    'volunteers:read': 'Consulter les candidatures de bénévolat',
+    'volunteers:review': 'Approuver, rejeter, modifier les candidatures de bénévolat',
+    'users:read': 'Consulter les comptes utilisateurs',
+    'users:manage': 'Créer, modifier, supprimer des comptes et attribuer des rôles',
+    'users:impersonate': 'Consulter l\'application en lecture seule en tant qu\'un utilisateur (support)',
+    'roles:manage': 'Gérer les définitions de rôles',
+    'api_keys:manage': 'Créer et révoquer les clés d\'API des partenaires',
+    'dashboard:read': 'Accéder au tableau de bord administrateur',
+    'audit:read': 'Consulter le journal d\'audit de sécurité'
+} as const
+
+export type Permission = keyof typeof PERMISSIONS
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[]
+
+// Rôles créés au premier démarrage (table des rôles vide)
+const DEFAULT_ROLES: { name: string; description: string; permissions: Permission[]; isSystem: boolean }[] = [
+    { name: 'admin', description: 'Administrateur : toutes les permissions', permissions: ALL_PERMISSIONS, isSystem: true },
+    { name: 'user', description: 'Adoptant / donateur', permissions: [], isSystem: true },
+    {
+        name: 'counsellor',
+        description: 'Conseiller adoption',
+        permissions: ['animals:read', 'medical:read', 'adoptions:read', 'adoptions:review', 'contacts:read', 'contacts:manage'],
+        isSystem: false
+    },
+    {
+        name: 'volunteer_coordinator',
+        description: 'Coordinateur des bénévoles',
+        permissions: ['volunteers:read', 'volunteers:review'],
+        isSystem: false
+    },
+    {
+        name: 'treasurer',
+        description: 'Trésorier',
+        permissions: ['donations:read', 'donations:refund', 'donations:manage'],
+        isSystem: false
+    },
+    {
+        name: 'vet',
+        description: 'Vétérinaire',
+        permissions: ['animals:read', 'animals:write', 'medical:read', 'medical:write'],
+        isSystem: false
+    }
+]
+
+/*
+Permissions accordées à des rôles par défaut après leur création, pour les bases déjà initialisées
+Chaque migration n'est appliquée qu'une fois (table data_migrations) : une permission retirée
+ensuite par un administrateur n'est jamais rendue, un rôle supprimé n'est pas recréé
+*/
+const DEFAULT_ROLE_PERMISSION_MIGRATIONS: { name: string; grants: Record<string, Permission[]> }[] = [
+    {
+        name: 'roles_medical_records_permissions',
+        grants: { counsellor: ['medical:read'], vet: ['medical:read', 'medical:write'] }
+    }
+]
+
+export class RoleService {
+    private static readonly CACHE_TTL_MS = 30 * 1000
+    private static cache: { loadedAt: number; permissions: Map<string, string[]> } | null = null
+
+    // Vérifie qu'une chaîne correspond à une permission connue
+    static isValidPermission(permission: string): permission is Permission {
+        return permission in PERMISSIONS
+    }
+
+    /*
+    Initialise les rôles par défaut au premier démarrage, puis applique les migrations de permissions en attente
+    Appelé à chaque démarrage : un rôle supprimé ou une permission retirée par un administrateur reste supprimé
+    */
+    static async ensureDefaultRoles(): Promise<void> {
+        if (await prisma.role.count() === 0) {
+            await prisma.role.createMany({
+                data: DEFAULT_ROLES,
+                skipDuplicates: true
+            })
+        }
+
+        await this.applyPermissionMigrations()
+        this.invalidateCache()
+    }
+
+    // Applique une seule fois chaque migration de permissions (enregistrée dans la même transaction)
+    private static async applyPermissionMigrations(): Promise<void> {
+        const applied = await prisma.dataMigration.findMany({
+            where: { name: { in: DEFAULT_ROLE_PERMISSION_MIGRATIONS.map(migration => migration.name) } },
+            select: { name: true }
+        })
+        const appliedNames = new Set(applied.map(migration => migration.name))
+
+        for (const migration of DEFAULT_ROLE_PERMISSION_MIGRATIONS) {
+            if (appliedNames.has(migration.name)) continue
+
+            await prisma.$transaction(async tx => {
+                await tx.dataMigration.create({ data: { name: migration.name } })
+
+                for (const [roleName, permissions] of Object.entries(migration.grants)) {
+                    const role = await tx.role.findUnique({
+                        where: { name: roleName },
+                        select: { permissions: true }
+                    })
+                    if (!role) continue
+
+                    const missing = permissions.filter(permission => !role.permissions.includes(permission))
+                    if (missing.length > 0) {
+                        await tx.role.update({
+                            where: { name: roleName },
+                            data: { permissions: { push: missing } }
+                        })
+                    }
+                }
+            })
+        }
+    }
+
+    static invalidateCache(): void {
+        this.cache = null
+    }
+
+    // Charge (avec un cache court) la table rôle → permissions
+    private static async loadPermissions(): Promise<Map<string, string[]>> {
+        if (this.cache && Date.now() - this.cache.loadedAt < this.CACHE_TTL_MS) {
+            return this.cache.permissions
+        }
+
+        const roles = await prisma.role.findMany({
+            select: { name: true, permissions: true }
+        })
+
+        const permissions = new Map(roles.map(role => [role.name, role.permissions]))
+        this.cache = { loadedAt: Date.now(), permissions }
+
+        return permissions
+    }
+
+    /*
+    Permissions d'un rôle
+    Le rôle admin possède toujours toutes les permissions, y compris celles ajoutées après sa création
+    */
+    static async getPermissionsForRole(roleName: string | null | undefined): Promise<string[]> {
+        if (roleName === 'admin') {
+            return [...ALL_PERMISSIONS]
+        }
+        if (!roleName) {
+            return []
+        }
+
+        const permissions = await this.loadPermissions()
+        return permissions.get(roleName) ?? []
+    }
+
+    // Vérifie qu'un rôle possède toutes les permissions demandées
+    static async hasPermissions(roleName: string | null | undefined, required: string[]): Promise<boolean> {
+        const granted = await this.getPermissionsForRole(roleName)
+        return required.every(permission => granted.includes(permission))
+    }
+
+    // Rôle du personnel : toute permission d'administration (utilisé par la politique 2FA)
+    static async isStaffRole(roleName: string | null | undefined): Promise<boolean> {
+        const granted = await this.getPermissionsForRole(roleName)
+        return granted.length > 0
+    }
+
+    static async roleExists(roleName: string): Promise<boolean> {
+        const permissions = await this.loadPermissions()
+        return permissions.has(roleName)
+    }
+
+    // Lister les rôles avec le nombre d'utilisateurs associés
+    static async getAllRoles() {
+        const [roles, counts] = await Promise.all([
+            prisma.role.findMany({ orderBy: { name: 'asc' } }),
+            prisma.user.groupBy({ by: ['role'], _count: { id: true } })
+        ])
+
+        return roles.map(role => ({
+            ...role,
+            permissions: role.name === 'admin' ? ALL_PERMISSIONS : role.permissions,
+            userCount: counts.find(count => count.role === role.name)?._count.id ?? 0
+        }))
+    }
+
+    // Valide une liste de permissions et retourne la liste dédoublonnée
+    private static validatePermissions(permissions: string[]): string[] {
+        const invalid = permissions.filter(permission => !this.isValidPermission(permission))
+        if (invalid.length > 0) {
+            throw new Error(`Permissions invalides: ${invalid.join(', ')}`)
+        }
+        return Array.from(new Set(permissions))
+    }
+
+    // Créer un rôle
+    static async createRole(roleData: { name: string; description?: string; permissions: string[] }) {
+        const name = roleData.name.trim().toLowerCase()
+
+        if (!/^[a-z][a-z0-9_]{1,49}$/.test(name)) {
+            throw new Error('Nom de rôle invalide (lettres minuscules, chiffres et _ uniquement)')
+        }
+
+        const existingRole = await prisma.role.findUnique({ where: { name } })
+        if (existingRole) {
+            throw new Error('Un rôle avec ce nom existe déjà')
+        }
+
+        const role = await prisma.role.create({
+            data: {
+                name,
+                description: roleData.description?.trim() || null,
+                permissions: this.validatePermissions(roleData.permissions)
+            }
+        })
+
+        this.invalidateCache()
+        return role
+    }
+
+    // Modifier la description ou les permissions d'un rôle
+    static async updateRole(name: string, updateData: { description?: string; permissions?: string[] }) {
+        const existingRole = await prisma.role.findUnique({ where: { name } })
+        if (!existingRole) {
+            throw new Error('Rôle non trouvé')
+        }
+
+        if (name === 'admin' && updateData.permissions !== undefined) {
+            throw new Error('Les permissions du rôle admin ne sont pas modifiables')
+        }
+
+        const cleanUpdateData: any = {}
+        if (updateData.description !== undefined) {
+            cleanUpdateData.description = updateData.description.trim() || null
+        }
+        if (updateData.permissions !== undefined) {
+            cleanUpdateData.permissions = this.validatePermissions(updateData.permissions)
+        }
+
+        const role = await prisma.role.update({
+            where: { name },
+            data: cleanUpdateData
+        })
+
+        this.invalidateCache()
+        return role
+    }
+
+    // Supprimer un rôle (impossible pour les rôles système ou encore attribués)
+    static async deleteRole(name: string) {
+        const existingRole = await prisma.role.findUnique({ where: { name } })
+        if (!existingRole) {
+            throw new Error('Rôle non trouvé')
+        }
+
+        if (existingRole.isSystem) {
+            throw new Error('Impossible de supprimer un rôle système')
+        }
+
+        const assignedUsers = await prisma.user.count({ where: { role: name } })
+        if (assignedUsers > 0) {
+            throw new Error(`Impossible de supprimer un rôle attribué à ${assignedUsers} utilisateur(s)`)
+        }
+
+        await prisma.role.delete({ where: { name } })
+
+        this.invalidateCache()
+        return { message: 'Rôle supprimé avec succès' }
+    }
+}
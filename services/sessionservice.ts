@@ -0,0 +1,306 @@
+import crypto from 'crypto';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { AuthEventService, ClientContext } from './autheventservice';
+import { describeUserAgent } from '../lib/useragent';
+import { AccountStatusInfo } from '../lib/accountstatus';
+
+const prisma = new PrismaClient()
+
+export class SessionService {
+    private static readonly REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.JWT_REFRESH_EXPIRES_DAYS || '30')
+    // Intervalle minimum entre deux mises à jour de lastSeenAt (évite une écriture à chaque requête)
+    private static readonly LAST_SEEN_THROTTLE_MS = 60 * 1000
+
+    // Génère un refresh token aléatoire (opaque) : seul son hash est conservé en base
+    private static generateRawToken(): string {
+        return crypto.randomBytes(48).toString('base64url')
+    }
+
+    static hashToken(token: string): string {
+        return crypto.createHash('sha256').update(token).digest('hex')
+    }
+
+    private static refreshExpiryDate(): Date {
+        return new Date(Date.now() + this.REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000)
+    }
+
+    /*
+    Ouvre une nouvelle session (famille de refresh tokens) pour un utilisateur
+    Retourne l'identifiant de session (mis dans le JWT) et le premier refresh token
+    */
+    static async createSession(userId: number, context: ClientContext = {}): Promise<{ sessionId: string; refreshToken: string }> {
+        const refreshToken = this.generateRawToken()
+        const expiresAt = this.refreshExpiryDate()
+
+        const session = await prisma.session.create({
+            data: {
+                userId,
+                expiresAt,
+                lastSeenAt: new Date(),
+                ip: context.ip?.slice(0, 45),
+                userAgent: context.userAgent?.slice(0, 500),
+                refreshTokens: {
+                    create: {
+                        tokenHash: this.hashToken(refreshToken),
+                        expiresAt
+                    }
+                }
+            }
+        })
+
+        return { sessionId: session.id, refreshToken }
+    }
+
+    /*
+    Ouvre une session d'impersonation (support) : courte durée, sans refresh token
+    La session appartient à l'utilisateur ciblé et garde la trace de l'admin à l'origine
+    */
+    static async createImpersonationSession(userId: number, impersonatorId: number, ttlMinutes: number, context: ClientContext = {}): Promise<{ sessionId: string; expiresAt: Date }> {
+        const session = await prisma.session.create({
+            data: {
+                userId,
+                impersonatorId,
+                expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+                lastSeenAt: new Date(),
+                ip: context.ip?.slice(0, 45),
+                userAgent: context.userAgent?.slice(0, 500)
+            }
+        })
+
+        return { sessionId: session.id, expiresAt: session.expiresAt }
+    }
+
+    // Impersonations en cours ouvertes par un admin
+    static async listActiveImpersonations(impersonatorId: number) {
+        await this.recordExpiredImpersonations()
+
+        return prisma.session.findMany({
+            where: { impersonatorId, revokedAt: null, expiresAt: { gt: new Date() } },
+            select: {
+                id: true,
+                createdAt: true,
+                expiresAt: true,
+                user: { select: { id: true, firstname: true, lastname: true, email: true } }
+            },
+            orderBy: { createdAt: 'desc' }
+        })
+    }
+
+    /*
+    Journalise la fin des impersonations arrivées à expiration sans avoir été terminées
+    La session est marquée révoquée à sa date d'expiration : chaque fin n'est enregistrée qu'une fois
+    */
+    static async recordExpiredImpersonations(): Promise<void> {
+        const expired = await prisma.session.findMany({
+            where: { impersonatorId: { not: null }, revokedAt: null, expiresAt: { lte: new Date() } },
+            select: { id: true, userId: true, impersonatorId: true, expiresAt: true }
+        })
+
+        for (const session of expired) {
+            const marked = await prisma.session.updateMany({
+                where: { id: session.id, revokedAt: null },
+                data: { revokedAt: session.expiresAt, revokedReason: 'impersonation_expired' }
+            })
+
+            if (marked.count > 0) {
+                await AuthEventService.record({
+                    type: 'impersonation_end',
+                    userId: session.userId,
+                    actorId: session.impersonatorId ?? undefined,
+                    reason: 'expired',
+                    metadata: { sessionId: session.id, expiredAt: session.expiresAt.toISOString() }
+                })
+            }
+        }
+    }
+
+    // Termine une impersonation ouverte par cet admin (retourne l'ID de l'utilisateur ciblé, ou null)
+    static async endImpersonation(impersonatorId: number, sessionId: string, reason: string): Promise<number | null> {
+        const session = await prisma.session.findFirst({
+            where: { id: sessionId, impersonatorId, revokedAt: null },
+            select: { userId: true }
+        })
+
+        if (!session) {
+            return null
+        }
+
+        await this.revokeSession(sessionId, reason)
+        return session.userId
+    }
+
+    /*
+    Rotation d'un refresh token : l'ancien est marqué comme utilisé et un nouveau est émis
+    Si un token déjà utilisé est rejoué, toute la famille (la session) est révoquée
+    */
+    static async rotateRefreshToken(rawToken: string): Promise<{ userId: number; sessionId: string; refreshToken: string }> {
+        const stored = await prisma.refreshToken.findUnique({
+            where: { tokenHash: this.hashToken(rawToken) },
+            include: { session: true }
+        })
+
+        if (!stored) {
+            throw new Error('Refresh token invalide ou expiré')
+        }
+
+        const now = new Date()
+
+        if (stored.session.revokedAt || stored.session.expiresAt < now || stored.expiresAt < now) {
+            throw new Error('Refresh token invalide ou expiré')
+        }
+
+        // updateMany conditionnel : garantit qu'un même token ne peut être consommé qu'une seule fois
+        const consumed = await prisma.refreshToken.updateMany({
+            where: { id: stored.id, usedAt: null },
+            data: { usedAt: now }
+        })
+
+        if (consumed.count === 0) {
+            // Réutilisation d'un ancien token : on considère la famille comme compromise
+            await this.revokeSession(stored.sessionId, 'reuse_detected')
+            console.warn(`[AUTH] Réutilisation d'un refresh token détectée - session ${stored.sessionId} révoquée`)
+            throw new Error('Refresh token réutilisé, session révoquée')
+        }
+
+        const refreshToken = this.generateRawToken()
+
+        await prisma.refreshToken.create({
+            data: {
+                sessionId: stored.sessionId,
+                tokenHash: this.hashToken(refreshToken),
+                expiresAt: stored.session.expiresAt
+            }
+        })
+
+        return {
+            userId: stored.session.userId,
+            sessionId: stored.sessionId,
+            refreshToken
+        }
+    }
+
+    /*
+    Vérifie qu'une session existe, n'est pas révoquée et n'est pas expirée
+    et que le token a été émis avec la version courante de l'utilisateur (rôle / mot de passe inchangés)
+    Retourne l'état du compte de l'utilisateur (suspension) ou null si la session n'est plus valable
+    */
+    static async getActiveSessionUser(sessionId: string, tokenVersion: number): Promise<{ user: AccountStatusInfo; impersonatorId: number | null } | null> {
+        const session = await prisma.session.findUnique({
+            where: { id: sessionId },
+            select: {
+                revokedAt: true,
+                expiresAt: true,
+                impersonatorId: true,
+                user: {
+                    select: { tokenVersion: true, accountStatus: true, statusReason: true, suspendedUntil: true }
+                }
+            }
+        })
+
+        if (!session || session.revokedAt || session.expiresAt <= new Date() || session.user.tokenVersion !== tokenVersion) {
+            return null
+        }
+
+        return { user: session.user, impersonatorId: session.impersonatorId }
+    }
+
+    /*
+    Met à jour la date de dernière activité (et l'IP) d'une session
+    Limité à une écriture par minute et par session
+    */
+    static async touchSession(sessionId: string, context: ClientContext = {}): Promise<void> {
+        const now = new Date()
+
+        await prisma.session.updateMany({
+            where: {
+                id: sessionId,
+                OR: [
+                    { lastSeenAt: null },
+                    { lastSeenAt: { lt: new Date(now.getTime() - this.LAST_SEEN_THROTTLE_MS) } }
+                ]
+            },
+            data: {
+                lastSeenAt: now,
+                ...(context.ip && { ip: context.ip.slice(0, 45) })
+            }
+        })
+    }
+
+    // Sessions actives d'un utilisateur (appareil, IP, dates), la plus récemment utilisée en premier
+    static async listActiveSessions(userId: number) {
+        const sessions = await prisma.session.findMany({
+            where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+            select: {
+                id: true,
+                ip: true,
+                userAgent: true,
+                createdAt: true,
+                lastSeenAt: true,
+                expiresAt: true,
+                impersonatorId: true
+            },
+            orderBy: [{ lastSeenAt: 'desc' }, { createdAt: 'desc' }]
+        })
+
+        return sessions.map(({ impersonatorId, ...session }) => ({
+            ...session,
+            device: describeUserAgent(session.userAgent),
+            // Consultation du compte par le support (transparence vis-à-vis de l'utilisateur)
+            impersonation: impersonatorId !== null
+        }))
+    }
+
+    // Révoque une session appartenant à l'utilisateur (retourne false si inconnue ou déjà révoquée)
+    static async revokeUserSession(userId: number, sessionId: string, reason: string): Promise<boolean> {
+        const count = await this.revokeAndRecordImpersonationEnds({ id: sessionId, userId, revokedAt: null }, reason)
+        return count > 0
+    }
+
+    // Révoque une session : tous ses refresh tokens et access tokens deviennent inutilisables
+    static async revokeSession(sessionId: string, reason: string): Promise<void> {
+        await prisma.session.updateMany({
+            where: { id: sessionId, revokedAt: null },
+            data: { revokedAt: new Date(), revokedReason: reason }
+        })
+    }
+
+    // Révoque toutes les sessions actives d'un utilisateur (sauf éventuellement la session courante)
+    static async revokeAllForUser(userId: number, reason: string, exceptSessionId?: string): Promise<number> {
+        return this.revokeAndRecordImpersonationEnds(
+            { userId, revokedAt: null, ...(exceptSessionId && { id: { not: exceptSessionId } }) },
+            reason
+        )
+    }
+
+    /*
+    Révoque les sessions ciblées et journalise la fin des impersonations qu'elles contenaient
+    (déconnexion par l'utilisateur ciblé, suspension du compte, changement de mot de passe...)
+    */
+    private static async revokeAndRecordImpersonationEnds(where: Prisma.SessionWhereInput, reason: string): Promise<number> {
+        // Les impersonations déjà expirées gardent leur fin "expired"
+        await this.recordExpiredImpersonations()
+
+        const now = new Date()
+        const impersonations = await prisma.session.findMany({
+            where: { ...where, impersonatorId: { not: null }, expiresAt: { gt: now } },
+            select: { id: true, userId: true, impersonatorId: true }
+        })
+
+        const result = await prisma.session.updateMany({
+            where,
+            data: { revokedAt: now, revokedReason: reason }
+        })
+
+        for (const session of impersonations) {
+            await AuthEventService.record({
+                type: 'impersonation_end',
+                userId: session.userId,
+                actorId: session.impersonatorId ?? undefined,
+                reason,
+                metadata: { sessionId: session.id }
+            })
+        }
+
+        return result.count
+    }
+}
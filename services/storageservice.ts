@@ -0,0 +1,78 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+// Contrat commun à tous les backends de stockage de fichiers (disque local, S3, mock de test...)
+export interface StorageBackend {
+    save(key: string, data: Buffer, contentType: string): Promise<void>
+    delete(key: string): Promise<void>
+    getUrl(key: string): string
+}
+
+/*
+Backend par défaut : fichiers écrits dans UPLOAD_DIR (./uploads par défaut)
+et servis par Express sous UPLOAD_PUBLIC_URL (/uploads par défaut, voir app.ts)
+*/
+export class LocalDiskStorage implements StorageBackend {
+    constructor(private readonly baseDir: string, private readonly publicBaseUrl: string) {}
+
+    // Empêche une clé de sortir du dossier d'upload (../)
+    private resolve(key: string): string {
+        const filePath = path.resolve(this.baseDir, key)
+        if (!filePath.startsWith(path.resolve(this.baseDir) + path.sep)) {
+            throw new Error('Clé de stockage invalide')
+        }
+        return filePath
+    }
+
+    async save(key: string, data: Buffer): Promise<void> {
+        const filePath = this.resolve(key)
+        await fs.mkdir(path.dirname(filePath), { recursive: true })
+        await fs.writeFile(filePath, data)
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.rm(this.resolve(key), { force: true })
+    }
+
+    getUrl(key: string): string {
+        return `${this.publicBaseUrl.replace(/\/$/, '')}/${key}`
+    }
+}
+
+export class StorageService {
+    static readonly LOCAL_UPLOAD_DIR = process.env.UPLOAD_DIR || path.join(process.cwd(), 'uploads')
+    static readonly LOCAL_PUBLIC_URL = process.env.UPLOAD_PUBLIC_URL || '/uploads'
+    private static backend: StorageBackend = new LocalDiskStorage(StorageService.LOCAL_UPLOAD_DIR, StorageService.LOCAL_PUBLIC_URL)
+
+    // Permet de brancher un autre backend (stockage objet, CDN, mock de test...)
+    static setBackend(backend: StorageBackend): void {
+        this.backend = backend
+    }
+
+    // Vrai si les fichiers sont servis par cette application (dossier statique à exposer)
+    static isLocalDisk(): boolean {
+        return this.backend instanceof LocalDiskStorage
+    }
+
+    static async save(key: string, data: Buffer, contentType: string): Promise<void> {
+        await this.backend.save(key, data, contentType)
+    }
+
+    /*
+    Supprime des fichiers
+    Ne lève jamais d'erreur : un fichier orphelin ne doit pas bloquer la suppression en base
+    */
+    static async deleteMany(keys: string[]): Promise<void> {
+        for (const key of keys) {
+            try {
+                await this.backend.delete(key)
+            } catch (error) {
+                console.error(`Erreur lors de la suppression du fichier ${key}:`, error)
+            }
+        }
+    }
+
+    static getUrl(key: string): string {
+        return this.backend.getUrl(key)
+    }
+}
@@ -0,0 +1,219 @@
+import crypto from 'crypto'
+import { PrismaClient } from '@prisma/client'
+import { buildOtpAuthUri, generateSecret, verifyTotp } from '../lib/totp'
+
+const prisma = new PrismaClient()
+
+export class TwoFactorService {
+    private static readonly ISSUER = process.env.TWO_FACTOR_ISSUER || 'Adaopte'
+    private static readonly RECOVERY_CODES_COUNT = 10
+    // Clé de chiffrement des secrets TOTP en base (dérivée du secret JWT si non fournie)
+    private static readonly ENCRYPTION_KEY = crypto
+        .createHash('sha256')
+        .update(process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET || 'adalicious-fallback-secret')
+        .digest()
+
+    // Politique : 2FA obligatoire pour les rôles disposant de permissions d'administration
+    static isRequiredForStaff(): boolean {
+        return process.env.REQUIRE_2FA_FOR_STAFF !== 'false'
+    }
+
+    private static encryptSecret(secret: string): string {
+        const iv = crypto.randomBytes(12)
+        const cipher = crypto.createCipheriv('aes-256-gcm', this.ENCRYPTION_KEY, iv)
+        const encrypted = Buffer.concat([cipher.update(secret, 'utf-8'), cipher.final()])
+        return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.')
+    }
+
+    private static decryptSecret(payload: string): string {
+        const [iv, authTag, encrypted] = payload.split('.').map(part => Buffer.from(part, 'base64'))
+        const decipher = crypto.createDecipheriv('aes-256-gcm', this.ENCRYPTION_KEY, iv)
+        decipher.setAuthTag(authTag)
+        return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf-8')
+    }
+
+    private static hashRecoveryCode(code: string): string {
+        return crypto.createHash('sha256').update(code.replace(/-/g, '').toLowerCase()).digest('hex')
+    }
+
+    // Génère un nouveau jeu de codes de secours (format xxxxx-xxxxx), remplace les anciens
+    private static async generateRecoveryCodes(userId: number): Promise<string[]> {
+        const codes = Array.from({ length: this.RECOVERY_CODES_COUNT }, () => {
+            const raw = crypto.randomBytes(5).toString('hex')
+            return `${raw.slice(0, 5)}-${raw.slice(5)}`
+        })
+
+        await prisma.$transaction([
+            prisma.recoveryCode.deleteMany({ where: { userId } }),
+            prisma.recoveryCode.createMany({
+                data: codes.map(code => ({ userId, codeHash: this.hashRecoveryCode(code) }))
+            })
+        ])
+
+        return codes
+    }
+
+    // État de la double authentification d'un utilisateur
+    static async getStatus(userId: number) {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { twoFactorEnabledAt: true }
+        })
+
+        if (!user) {
+            throw new Error('Utilisateur non trouvé')
+        }
+
+        const recoveryCodesRemaining = await prisma.recoveryCode.count({
+            where: { userId, usedAt: null }
+        })
+
+        return {
+            enabled: !!user.twoFactorEnabledAt,
+            enabledAt: user.twoFactorEnabledAt,
+            recoveryCodesRemaining
+        }
+    }
+
+    static async isEnabled(userId: number): Promise<boolean> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { twoFactorEnabledAt: true }
+        })
+
+        return !!user?.twoFactorEnabledAt
+    }
+
+    /*
+    Étape 1 de l'inscription : génère un secret (stocké chiffré, pas encore actif)
+    Retourne le secret et l'URI otpauth:// à afficher sous forme de QR code
+    */
+    static async startEnrollment(userId: number) {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { email: true, twoFactorEnabledAt: true }
+        })
+
+        if (!user) {
+            throw new Error('Utilisateur non trouvé')
+        }
+
+        if (user.twoFactorEnabledAt) {
+            throw new Error('La double authentification est déjà activée')
+        }
+
+        const secret = generateSecret()
+
+        await prisma.user.update({
+            where: { id: userId },
+            data: {
+                twoFactorSecret: this.encryptSecret(secret),
+                twoFactorLastCounter: null
+            }
+        })
+
+        return {
+            secret,
+            otpauthUri: buildOtpAuthUri(secret, user.email, this.ISSUER)
+        }
+    }
+
+    /*
+    Étape 2 de l'inscription : l'utilisateur saisit un code de son application pour prouver la configuration
+    Active la 2FA et retourne les codes de secours (affichés une seule fois)
+    */
+    static async confirmEnrollment(userId: number, code: string): Promise<string[]> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { twoFactorSecret: true, twoFactorEnabledAt: true }
+        })
+
+        if (!user) {
+            throw new Error('Utilisateur non trouvé')
+        }
+
+        if (user.twoFactorEnabledAt) {
+            throw new Error('La double authentification est déjà activée')
+        }
+
+        if (!user.twoFactorSecret) {
+            throw new Error('Aucune configuration de double authentification en cours')
+        }
+
+        const counter = verifyTotp(this.decryptSecret(user.twoFactorSecret), code)
+        if (counter === null) {
+            throw new Error('Code de vérification incorrect')
+        }
+
+        await prisma.user.update({
+            where: { id: userId },
+            data: {
+                twoFactorEnabledAt: new Date(),
+                twoFactorLastCounter: counter
+            }
+        })
+
+        return this.generateRecoveryCodes(userId)
+    }
+
+    /*
+    Vérifie un second facteur : code TOTP (un même code ne peut servir qu'une fois)
+    ou code de secours (consommé)
+    */
+    static async verify(userId: number, code: string): Promise<{ valid: boolean; method?: 'totp' | 'recovery_code' }> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { twoFactorSecret: true, twoFactorEnabledAt: true, twoFactorLastCounter: true }
+        })
+
+        if (!user?.twoFactorEnabledAt || !user.twoFactorSecret) {
+            return { valid: false }
+        }
+
+        const normalized = code.trim()
+        const counter = verifyTotp(this.decryptSecret(user.twoFactorSecret), normalized)
+
+        if (counter !== null) {
+            // Refuse un code déjà utilisé (ou plus ancien que le dernier utilisé)
+            const accepted = await prisma.user.updateMany({
+                where: {
+                    id: userId,
+                    OR: [
+                        { twoFactorLastCounter: null },
+                        { twoFactorLastCounter: { lt: counter } }
+                    ]
+                },
+                data: { twoFactorLastCounter: counter }
+            })
+
+            return accepted.count > 0 ? { valid: true, method: 'totp' } : { valid: false }
+        }
+
+        const consumed = await prisma.recoveryCode.updateMany({
+            where: { userId, codeHash: this.hashRecoveryCode(normalized), usedAt: null },
+            data: { usedAt: new Date() }
+        })
+
+        return consumed.count > 0 ? { valid: true, method: 'recovery_code' } : { valid: false }
+    }
+
+    // Régénère les codes de secours (après vérification d'un second facteur par l'appelant)
+    static async regenerateRecoveryCodes(userId: number): Promise<string[]> {
+        return this.generateRecoveryCodes(userId)
+    }
+
+    // Désactive la double authentification et supprime secret et codes de secours
+    static async disable(userId: number): Promise<void> {
+        await prisma.$transaction([
+            prisma.recoveryCode.deleteMany({ where: { userId } }),
+            prisma.user.update({
+                where: { id: userId },
+                data: {
+                    twoFactorSecret: null,
+                    twoFactorEnabledAt: null,
+                    twoFactorLastCounter: null
+                }
+            })
+        ])
+    }
+}
@@ -0,0 +1,98 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient()
+
+export type UserTokenType = 'password_reset' | 'email_verification' | 'magic_link'
+
+export class UserTokenService {
+
+    static hashToken(token: string): string {
+        return crypto.createHash('sha256').update(token).digest('hex')
+    }
+
+    /*
+    Crée un token à usage unique pour un utilisateur
+    Les tokens précédents du même type encore valides sont invalidés : seul le dernier lien envoyé fonctionne
+    Retourne le token en clair (à envoyer par email), seul son hash est stocké
+    */
+    static async createToken(userId: number, type: UserTokenType, ttlMinutes: number): Promise<string> {
+        const rawToken = crypto.randomBytes(32).toString('base64url')
+        const now = new Date()
+
+        await prisma.$transaction([
+            prisma.userToken.updateMany({
+                where: { userId, type, usedAt: null },
+                data: { usedAt: now }
+            }),
+            prisma.userToken.create({
+                data: {
+                    userId,
+                    type,
+                    tokenHash: this.hashToken(rawToken),
+                    expiresAt: new Date(now.getTime() + ttlMinutes * 60 * 1000)
+                }
+            })
+        ])
+
+        return rawToken
+    }
+
+    // Date du dernier token émis et nombre de tokens émis depuis une date (pour limiter les renvois d'emails)
+    static async getRecentTokenActivity(userId: number, type: UserTokenType, since: Date): Promise<{ lastSentAt: Date | null; count: number }> {
+        const [lastToken, count] = await Promise.all([
+            prisma.userToken.findFirst({
+                where: { userId, type },
+                orderBy: { createdAt: 'desc' },
+                select: { createdAt: true }
+            }),
+            prisma.userToken.count({
+                where: { userId, type, createdAt: { gte: since } }
+            })
+        ])
+
+        return { lastSentAt: lastToken?.createdAt ?? null, count }
+    }
+
+    /*
+    Vérifie un token sans le consommer (ex : valider le nouveau mot de passe avant d'utiliser le lien)
+    Retourne l'ID de l'utilisateur concerné
+    */
+    static async findValidToken(rawToken: string, type: UserTokenType): Promise<number> {
+        const stored = await prisma.userToken.findUnique({
+            where: { tokenHash: this.hashToken(rawToken) }
+        })
+
+        if (!stored || stored.type !== type || stored.usedAt || stored.expiresAt < new Date()) {
+            throw new Error('Lien invalide ou expiré')
+        }
+
+        return stored.userId
+    }
+
+    /*
+    Consomme un token : vérifie son type, sa date d'expiration et qu'il n'a jamais servi
+    Retourne l'ID de l'utilisateur concerné
+    */
+    static async consumeToken(rawToken: string, type: UserTokenType): Promise<number> {
+        const stored = await prisma.userToken.findUnique({
+            where: { tokenHash: this.hashToken(rawToken) }
+        })
+
+        if (!stored || stored.type !== type || stored.usedAt || stored.expiresAt < new Date()) {
+            throw new Error('Lien invalide ou expiré')
+        }
+
+        // Mise à jour conditionnelle : deux requêtes simultanées ne peuvent pas consommer le même token
+        const consumed = await prisma.userToken.updateMany({
+            where: { id: stored.id, usedAt: null },
+            data: { usedAt: new Date() }
+        })
+
+        if (consumed.count === 0) {
+            throw new Error('Lien invalide ou expiré')
+        }
+
+        return stored.userId
+    }
+}
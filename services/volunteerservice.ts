@@ -1,7 +1,15 @@
 import { PrismaClient } from '@prisma/client'
+import { buildPage, PaginationOptions, PaginationParams, toPrismaArgs } from '../lib/pagination'
 
 const prisma = new PrismaClient()
 
+// Tris autorisés sur les listes de candidatures
+export const VOLUNTEER_PAGINATION: PaginationOptions<'createdAt' | 'lastname' | 'firstname' | 'city' | 'age' | 'status'> = {
+    sortFields: ['createdAt', 'lastname', 'firstname', 'city', 'age', 'status'],
+    defaultSort: 'createdAt',
+    defaultOrder: 'desc'
+}
+
 export class VolunteerService {
     
     // Créer une nouvelle candidature de bénévolat
@@ -60,33 +68,35 @@ export class VolunteerService {
         return volunteer
     }
 
-    // Récupérer toutes les candidatures (pour les admins)
-    static async getAllVolunteers() {
-        const volunteers = await prisma.volunteer.findMany({
-            orderBy: {
-                createdAt: 'desc'
-            }
-        })
+    // Récupérer une page de toutes les candidatures (pour les admins)
+    static async getAllVolunteers(params: PaginationParams) {
+        const [volunteers, total] = await Promise.all([
+            prisma.volunteer.findMany({
+                ...toPrismaArgs(params)
+            }),
+            prisma.volunteer.count()
+        ])
 
-        return volunteers
+        return buildPage(volunteers, total, params)
     }
 
     // Récupérer les candidatures par statut
-    static async getVolunteersByStatus(status: string) {
+    static async getVolunteersByStatus(status: string, params: PaginationParams) {
         const validStatuses = ['pending', 'approved', 'rejected']
         
         if (!validStatuses.includes(status)) {
             throw new Error(`Statut invalide. Statuts autorisés: ${validStatuses.join(', ')}`)
         }
 
-        const volunteers = await prisma.volunteer.findMany({
-            where: { status },
-            orderBy: {
-                createdAt: 'desc'
-            }
-        })
+        const [volunteers, total] = await Promise.all([
+            prisma.volunteer.findMany({
+                where: { status },
+                ...toPrismaArgs(params)
+            }),
+            prisma.volunteer.count({ where: { status } })
+        ])
 
-        return volunteers
+        return buildPage(volunteers, total, params)
     }
 
     // Récupérer une candidature par ID
@@ -333,14 +343,14 @@ export class VolunteerService {
         }
     }
 
-    // Rechercher des bénévoles avec filtres
+    // Rechercher des bénévoles avec filtres (résultats paginés)
     static async searchVolunteers(filters: {
         city?: string
         status?: string
         minAge?: number
         maxAge?: number
         skills?: string
-    }) {
+    }, params: PaginationParams) {
         
         // Construire les conditions de recherche
         const whereConditions: any = {}
@@ -373,14 +383,15 @@ export class VolunteerService {
             }
         }
 
-        const volunteers = await prisma.volunteer.findMany({
-            where: whereConditions,
-            orderBy: {
-                createdAt: 'desc'
-            }
-        })
+        const [volunteers, total] = await Promise.all([
+            prisma.volunteer.findMany({
+                where: whereConditions,
+                ...toPrismaArgs(params)
+            }),
+            prisma.volunteer.count({ where: whereConditions })
+        ])
 
-        return volunteers
+        return buildPage(volunteers, total, params)
     }
 
     /*
@@ -1,6 +1,7 @@
 import { Router, Request, Response } from "express"
-import { VolunteerService } from "../services/volunteerservice"
-import { authMiddleware, requireAdmin } from "../middleware/authmiddleware"
+import { VolunteerService, VOLUNTEER_PAGINATION } from "../services/volunteerservice"
+import { isPaginationError, parsePagination } from "../lib/pagination"
+import { authMiddleware, requirePermission } from "../middleware/authmiddleware"
 
 const router = Router()
 
@@ -194,20 +195,30 @@ router.get('/status/:email', async (req: Request, res: Response) => {
 })
 
 /* ---------------------- ROUTES ADMIN (Protégées) -------------------------
-Responsabilité : Afficher toutes les candidatures de bénévolat pour l'administration*/
+Responsabilité : Afficher toutes les candidatures de bénévolat pour l'administration
+Paginée : page/limit (ou cursor), sort (createdAt, lastname, firstname, city, age, status), order*/
 
-router.get('/admin/all', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.get('/admin/all', authMiddleware, requirePermission('volunteers:read'), async (req: Request, res: Response) => {
     try {
-        const volunteers = await VolunteerService.getAllVolunteers()
+        const pagination = parsePagination(req.query, VOLUNTEER_PAGINATION)
+        const page = await VolunteerService.getAllVolunteers(pagination)
 
         res.json({
             success: true,
             message: 'Liste des candidatures récupérée avec succès',
-            data: volunteers 
+            data: page.items,
+            pagination: page.pagination
         })
     } catch (error) {
         console.error('Erreur lors de la récupération des candidatures', error)
 
+        if (isPaginationError(error)) {
+            return res.status(400).json({
+                success: false,
+                message: (error as Error).message
+            })
+        }
+
         res.status(500).json({
             succes: false,
             message: 'Erreur lors de la récupération des candidatures',
@@ -219,20 +230,22 @@ router.get('/admin/all', authMiddleware, requireAdmin, async (req: Request, res:
 /* 🔒 Routes Protégée Admin : Lister les candidatures par statut 
 Resp : Filtrer les candidatures selon leur statut (pending/approved/rejected)*/ 
 
-router.get('/admin/status/:status', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.get('/admin/status/:status', authMiddleware, requirePermission('volunteers:read'), async (req: Request, res: Response) => {
     try {
         const status = req.params.status
-        const volunteers = await VolunteerService.getVolunteersByStatus(status)
+        const pagination = parsePagination(req.query, VOLUNTEER_PAGINATION)
+        const page = await VolunteerService.getVolunteersByStatus(status, pagination)
 
         res.json({
             success: true,
             message: `Candidatures avec le statut "${status}" récupérées avec succès`, 
-            data: volunteers
+            data: page.items,
+            pagination: page.pagination
         })
     } catch (error) {
         console.error('Erreur lors de la récupération par statut:', error)
 
-        if (error instanceof Error && error.message.includes('Statut invalide')) {
+        if (error instanceof Error && (error.message.includes('Statut invalide') || isPaginationError(error))) {
             return res.status(400).json({
                 success: false,
                 message: error.message 
@@ -247,10 +260,111 @@ router.get('/admin/status/:status', authMiddleware, requireAdmin, async (req: Re
     }
 })
 
+/* 🔒 ROUTE PROTÉGÉE ADMIN - Rechercher des candidatures
+Responsabilité : Recherche avancée avec filtres pour l'administration
+Déclarée avant /admin/:id pour ne pas être interprétée comme un ID*/
+router.get('/admin/search', authMiddleware, requirePermission('volunteers:read'), async (req: Request, res: Response) => {
+    try {
+        const city = req.query.city as string | undefined
+        const status = req.query.status as string | undefined  
+        const minAge = req.query.minAge as string | undefined
+        const maxAge = req.query.maxAge as string | undefined
+        const skills = req.query.skills as string | undefined
+
+        // Validation et conversion des paramètres 
+        const filters: any = {}
+
+        if (city) filters.city = city
+        if (status) filters.status = status 
+        if (skills) filters.skills = skills 
+
+        // Conversion des âges en nombres si fournis 
+        if (minAge) {
+            const minAgeNum = parseInt(minAge)
+            if (isNaN(minAgeNum) || minAgeNum < 0) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'L\'âge minimum doit être un nombre positif'
+                })
+            }
+            filters.minAge = minAgeNum 
+        }
+
+        if (maxAge) {
+            const maxAgeNum = parseInt(maxAge)
+            if (isNaN(maxAgeNum) ||maxAgeNum < 0) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'L\'âge maximum doit être un nombre positif'
+                })
+            }
+            filters.maxAge = maxAgeNum 
+        }
+
+        // Vérifier la cohérence des âges 
+        if (filters.minAge && filters.maxAge && filters.minAge > filters.maxAge) {
+            return res.status(400).json({
+                success: false,
+                message: 'L\'âge minimum ne peut pas être supérieur à l\'âge maximum'
+            })
+        }
+
+        const pagination = parsePagination(req.query, VOLUNTEER_PAGINATION)
+        const page = await VolunteerService.searchVolunteers(filters, pagination)
+
+        res.json({
+            success: true,
+            message: `${page.pagination.total} candidature(s) trouvée(s)`, 
+            data: page.items,
+            pagination: page.pagination,
+            filters: filters
+        })
+    } catch (error) {
+        console.error('Erreur lors de la recherche.', error)
+
+        if (isPaginationError(error)) {
+            return res.status(400).json({
+                success: false,
+                message: (error as Error).message
+            })
+        }
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la recherche de candidatures',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
+/* 🔒 ROUTE PROTÉGÉE ADMIN - Statistiques des bénévoles
+Responsabilité : Fournir un dashboard avec les statistiques des candidatures
+Déclarée avant /admin/:id pour ne pas être interprétée comme un ID*/
+router.get('/admin/stats', authMiddleware, requirePermission('volunteers:read'), async (req: Request, res: Response) => {
+    try {
+        const stats = await VolunteerService.getVolunteerStats()
+
+        res.json({
+            success: true,
+            message: 'Statistiques des bénévoles récupérées avec succès', 
+            data: stats 
+        })
+
+    } catch (error) {
+        console.error('Erreur lors de la récupération des statistiques', error)
+
+        res.status(500).json({
+            success: false,
+            message: 'Erreur lors de la récupération des statistiques',
+            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        })
+    }
+})
+
 /* 🔒 ROUTE PROTÉGÉE ADMIN - Récupérer une candidature par ID
 Responsabilité : Afficher les détails complets d'une candidature spécifique*/
 
-router.get('/admin/:id', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.get('/admin/:id', authMiddleware, requirePermission('volunteers:read'), async (req: Request, res: Response) => {
     try {
         const volunteerId = parseInt(req.params.id)
 
@@ -287,7 +401,7 @@ router.get('/admin/:id', authMiddleware, requireAdmin, async (req: Request, res:
 /* 🔒 ROUTE PROTÉGÉE ADMIN - Approuver une candidature
 Responsabilité : Marquer une candidature comme approuvée*/
 
-router.patch('/admin/:id/approve', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.patch('/admin/:id/approve', authMiddleware, requirePermission('volunteers:review'), async (req: Request, res: Response) => {
     try {
         const volunteerId = parseInt(req.params.id) 
 
@@ -334,7 +448,7 @@ router.patch('/admin/:id/approve', authMiddleware, requireAdmin, async (req: Req
 /* 🔒 ROUTE PROTÉGÉE ADMIN - Rejeter une candidature
 Responsabilité : Marquer une candidature comme rejetée*/
 
-router.patch('/admin/:id/reject', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.patch('/admin/:id/reject', authMiddleware, requirePermission('volunteers:review'), async (req: Request, res: Response) => {
     try {
         const volunteerId = parseInt(req.params.id) 
 
@@ -377,7 +491,7 @@ router.patch('/admin/:id/reject', authMiddleware, requireAdmin, async (req: Requ
 /* 🔒 ROUTE PROTÉGÉE ADMIN - Remettre en attente une candidature
 Responsabilité : Remettre le statut d'une candidature à "pending"*/
 
-router.patch('/admin/:id/pending', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.patch('/admin/:id/pending', authMiddleware, requirePermission('volunteers:review'), async (req: Request, res: Response) => {
     try {
         const volunteerId = parseInt(req.params.id) 
 
@@ -415,7 +529,7 @@ router.patch('/admin/:id/pending', authMiddleware, requireAdmin, async (req: Req
 
 /* 🔒 ROUTE PROTÉGÉE ADMIN - Mettre à jour une candidature
 Responsabilité : Permettre aux admins de modifier les informations d'une candidature*/
-router.put('/admin/:id', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.put('/admin/:id', authMiddleware, requirePermission('volunteers:review'), async (req: Request, res: Response) => {
     try {
         const volunteerId = parseInt(req.params.id)
         const updateData = req.body as UpdateVolunteerRequest
@@ -514,7 +628,7 @@ router.put('/admin/:id', authMiddleware, requireAdmin, async (req: Request, res:
 /* 🔒 ROUTE PROTÉGÉE ADMIN - Supprimer une candidature
 Responsabilité : Supprimer définitivement une candidature du système*/
 
-router.delete('/admin/:id', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+router.delete('/admin/:id', authMiddleware, requirePermission('volunteers:review'), async (req: Request, res: Response) => {
     try {
         const volunteerId = parseInt(req.params.id) 
 
@@ -549,96 +663,6 @@ router.delete('/admin/:id', authMiddleware, requireAdmin, async (req: Request, r
     }
 })
 
-/* 🔒 ROUTE PROTÉGÉE ADMIN - Rechercher des candidatures
-Responsabilité : Recherche avancée avec filtres pour l'administration*/
-router.get('/admin/search', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
-    try {
-        const city = req.query.city as string | undefined
-        const status = req.query.status as string | undefined  
-        const minAge = req.query.minAge as string | undefined
-        const maxAge = req.query.maxAge as string | undefined
-        const skills = req.query.skills as string | undefined
-
-        // Validation et conversion des paramètres 
-        const filters: any = {}
-
-        if (city) filters.city = city
-        if (status) filters.status = status 
-        if (skills) filters.skills = skills 
-
-        // Conversion des âges en nombres si fournis 
-        if (minAge) {
-            const minAgeNum = parseInt(minAge)
-            if (isNaN(minAgeNum) || minAgeNum < 0) {
-                return res.status(400).json({
-                    success: false,
-                    message: 'L\'âge minimum doit être un nombre positif'
-                })
-            }
-            filters.minAge = minAgeNum 
-        }
-
-        if (maxAge) {
-            const maxAgeNum = parseInt(maxAge)
-            if (isNaN(maxAgeNum) ||maxAgeNum < 0) {
-                return res.status(400).json({
-                    success: false,
-                    message: 'L\'âge maximum doit être un nombre positif'
-                })
-            }
-            filters.maxAge = maxAgeNum 
-        }
-
-        // Vérifier la cohérence des âges 
-        if (filters.minAge && filters.maxAge && filters.minAge > filters.maxAge) {
-            return res.status(400).json({
-                success: false,
-                message: 'L\'âge minimum ne peut pas être supérieur à l\'âge maximum'
-            })
-        }
-
-        const volunteers = await VolunteerService.searchVolunteers(filters)
-
-        res.json({
-            success: true,
-            message: `${volunteers.length} candidature(s) trouvée(s)`, 
-            data: volunteers,
-            filters: filters
-        })
-    } catch (error) {
-        console.error('Erreur lors de la recherche.', error)
-
-        res.status(500).json({
-            success: false,
-            message: 'Erreur lors de la recherche de candidatures',
-            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
-        })
-    }
-})
-
-/* 🔒 ROUTE PROTÉGÉE ADMIN - Statistiques des bénévoles
-Responsabilité : Fournir un dashboard avec les statistiques des candidatures*/
-router.get('/admin/stats', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
-    try {
-        const stats = await VolunteerService.getAllVolunteers()
-
-        res.json({
-            success: true,
-            message: 'Statistiques des bénévoles récupérées avec succès', 
-            data: stats 
-        })
-
-    } catch (error) {
-        console.error('Erreur lors de la récupération des statistiques', error)
-
-        res.status(500).json({
-            success: false,
-            message: 'Erreur lors de la récupération des statistiques',
-            error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
-        })
-    }
-})
-
 
 export default router 
 